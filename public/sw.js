@@ -0,0 +1,131 @@
+// Service worker: keeps the app shell available offline and answers Mapbox
+// requests from downloaded offline areas when the network is gone.
+
+const SHELL_CACHE = 'app-shell-v1';
+const SHELL_FILES = ['/', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png', '/favicon.ico'];
+// The build's hashed JS and CSS, filled in by vite.config.ts
+const PRECACHE_ASSETS = [];
+
+// Caches named like this are written by the page (src/lib/offline-tiles.ts)
+const OFFLINE_AREA_PREFIX = 'offline-area-';
+
+// How long a Mapbox request may hang before a downloaded copy is used instead
+const NETWORK_TIMEOUT = 4000;
+
+// Parameters that change between sessions without changing the resource.
+// Keep in step with offlineCacheKey in src/lib/offline-tiles.ts.
+const VOLATILE_PARAMS = ['access_token', 'sku'];
+
+function offlineCacheKey(url) {
+  const key = new URL(url);
+  if (key.hostname.endsWith('.tiles.mapbox.com')) key.hostname = 'api.mapbox.com';
+  VOLATILE_PARAMS.forEach((param) => key.searchParams.delete(param));
+  key.searchParams.sort();
+  return key.toString();
+}
+
+function isMapboxRequest(url) {
+  return url.hostname === 'api.mapbox.com' || url.hostname.endsWith('.tiles.mapbox.com');
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll([...SHELL_FILES, ...PRECACHE_ASSETS]))
+      .then(() => self.skipWaiting())
+  );
+});
+
+// Assets from earlier builds are never requested again once this one is active
+async function removeStaleAssets() {
+  const cache = await caches.open(SHELL_CACHE);
+  const current = new Set(PRECACHE_ASSETS.map((asset) => new URL(asset, self.location.origin).href));
+  const requests = await cache.keys();
+  await Promise.all(requests
+    .filter((request) => new URL(request.url).pathname.startsWith('/assets/') && !current.has(request.url))
+    .map((request) => cache.delete(request)));
+}
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('app-shell-') && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(removeStaleAssets)
+      .then(() => self.clients.claim())
+  );
+});
+
+async function fromOfflineAreas(request) {
+  const key = offlineCacheKey(request.url);
+  const names = await caches.keys();
+  for (const name of names.filter((name) => name.startsWith(OFFLINE_AREA_PREFIX))) {
+    const cached = await (await caches.open(name)).match(key);
+    if (cached) return cached;
+  }
+  return undefined;
+}
+
+// Network first so maps stay current, with downloaded areas as the fallback
+async function mapboxResponse(request) {
+  const cached = await fromOfflineAreas(request);
+  if (!cached) return fetch(request);
+  if (!self.navigator.onLine) return cached;
+
+  const timeout = new Promise((resolve) => setTimeout(() => resolve(cached), NETWORK_TIMEOUT));
+  const network = fetch(request)
+    .then((response) => (response.ok ? response : cached))
+    .catch(() => cached);
+  return Promise.race([network, timeout]);
+}
+
+// Pages always load the latest shell when online and the cached one otherwise
+async function navigationResponse(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/', response.clone());
+    return response;
+  } catch (error) {
+    return (await cache.match('/')) ?? Response.error();
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy never goes stale
+async function assetResponse(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function shellFileResponse(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    return (await cache.match(request)) ?? Response.error();
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (isMapboxRequest(url)) {
+    event.respondWith(mapboxResponse(request));
+  } else if (url.origin === self.location.origin) {
+    if (request.mode === 'navigate') event.respondWith(navigationResponse(request));
+    else if (url.pathname.startsWith('/assets/')) event.respondWith(assetResponse(request));
+    else event.respondWith(shellFileResponse(request));
+  }
+});
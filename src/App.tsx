@@ -1,27 +1,58 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useEffect } from "react";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { queryClient } from "@/lib/queries";
+import { persistQueryCache, restoreQueryCache } from "@/lib/query-persistence";
+import { isHistoryRecorded } from "@/hooks/use-trip-history";
+import { useTranslation } from "@/hooks/use-translation";
 import Index from "./pages/Index";
+import History from "./pages/History";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+const App = () => {
+  const { language } = useTranslation();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+  // Screen readers and hyphenation follow the interface language
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // Persisting starts after the restore so it never overwrites the saved
+  // cache, and pauses while history is off
+  useEffect(() => {
+    let stopPersisting: (() => void) | undefined;
+    let cancelled = false;
+    restoreQueryCache(queryClient).then(() => {
+      if (!cancelled) stopPersisting = persistQueryCache(queryClient, isHistoryRecorded);
+    });
+    return () => {
+      cancelled = true;
+      stopPersisting?.();
+    };
+  }, []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/trip" element={<Index />} />
+            <Route path="/history" element={<History />} />
+            <Route path="/settings" element={<Settings />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
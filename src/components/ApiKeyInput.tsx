@@ -1,78 +1,58 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
-import { Button } from '@/components/ui/button';
-import { Label } from '@/components/ui/label';
 import { MapPin, ExternalLink } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import LanguageSwitcher from './LanguageSwitcher';
+import TokenForm from './TokenForm';
 
 interface ApiKeyInputProps {
-  onApiKeySubmit: (token: string) => void;
+  /** Mapbox rejected the previous token */
+  rejected?: boolean;
 }
 
-const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ onApiKeySubmit }) => {
-  const [token, setToken] = useState('');
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (token.trim()) {
-      localStorage.setItem('mapbox_token', token.trim());
-      onApiKeySubmit(token.trim());
-    }
-  };
+const ApiKeyInput: React.FC<ApiKeyInputProps> = ({ rejected = false }) => {
+  const { t } = useTranslation();
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <LanguageSwitcher className="absolute top-4 right-4 w-40" />
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
           <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-primary">
             <MapPin className="h-6 w-6 text-primary-foreground" />
           </div>
-          <CardTitle className="text-2xl">Smart Traffic Monitor</CardTitle>
+          <CardTitle className="text-2xl">{t('welcome.title')}</CardTitle>
           <CardDescription>
-            Enter your Mapbox access token to start monitoring traffic and getting route suggestions
+            {t('welcome.description')}
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="token">Mapbox Access Token</Label>
-              <Input
-                id="token"
-                type="password"
-                placeholder="pk.eyJ1Ijoi..."
-                value={token}
-                onChange={(e) => setToken(e.target.value)}
-                required
-              />
-            </div>
-            
-            <div className="rounded-lg bg-muted p-3 text-sm">
-              <p className="font-medium mb-2">How to get your token:</p>
-              <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
-                <li>Create a free account at mapbox.com</li>
-                <li>Go to your Account page</li>
-                <li>Copy your public access token</li>
-              </ol>
+        <CardContent className="space-y-4">
+          {rejected && (
+            <div className="rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+              {t('welcome.rejected')}
             </div>
+          )}
 
-            <div className="flex gap-2">
-              <Button type="submit" className="flex-1">
-                Start Monitoring
-              </Button>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                onClick={() => window.open('https://mapbox.com', '_blank')}
-              >
-                <ExternalLink className="h-4 w-4" />
-              </Button>
-            </div>
-          </form>
+          <TokenForm submitLabel={t('welcome.submit')} />
+
+          <div className="rounded-lg bg-muted p-3 text-sm">
+            <p className="font-medium mb-2">{t('welcome.howTo')}</p>
+            <ol className="list-decimal list-inside space-y-1 text-muted-foreground">
+              <li>
+                {t('welcome.createAccount')}{' '}
+                <a href="https://mapbox.com" target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 underline">
+                  mapbox.com
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </li>
+              <li>{t('welcome.openAccount')}</li>
+              <li>{t('welcome.copyToken')}</li>
+            </ol>
+          </div>
         </CardContent>
       </Card>
     </div>
   );
 };
 
-export default ApiKeyInput;
\ No newline at end of file
+export default ApiKeyInput;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import {
+  ROUTE_EXPORT_FORMATS,
+  serializeRoute,
+  type RouteExport,
+  type RouteExportFormat,
+} from '@/lib/route-export';
+
+interface ExportRouteMenuProps {
+  data: RouteExport;
+}
+
+const fileName = (name: string, extension: string) =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'route'}.${extension}`;
+
+const ExportRouteMenu: React.FC<ExportRouteMenuProps> = ({ data }) => {
+  const { t } = useTranslation();
+
+  const download = (format: RouteExportFormat) => {
+    const { extension, mimeType } = ROUTE_EXPORT_FORMATS[format];
+    const url = URL.createObjectURL(new Blob([serializeRoute(format, data)], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName(data.name, extension);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8" title={t('export.title')}>
+          <Download className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(ROUTE_EXPORT_FORMATS) as RouteExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onClick={() => download(format)}>
+            {ROUTE_EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportRouteMenu;
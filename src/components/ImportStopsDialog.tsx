@@ -0,0 +1,224 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import type { MessageKey } from '@/lib/i18n';
+import type { Place } from '@/lib/routes';
+import {
+  csvRowsToImport,
+  detectStopFileFormat,
+  guessCsvMapping,
+  parseCsv,
+  parseGeoJsonStops,
+  parseGpxStops,
+  resolveImportRows,
+  type CsvColumnMapping,
+  type CsvTable,
+  type ImportResult,
+  type ImportRow,
+} from '@/lib/stop-import';
+
+interface ImportStopsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (places: Place[]) => void;
+}
+
+type ImportStep = 'file' | 'columns' | 'resolving' | 'review';
+
+const CSV_FIELDS: { field: keyof CsvColumnMapping; label: MessageKey }[] = [
+  { field: 'name', label: 'import.field.name' },
+  { field: 'address', label: 'import.field.address' },
+  { field: 'latitude', label: 'import.field.latitude' },
+  { field: 'longitude', label: 'import.field.longitude' },
+];
+
+// Radix Select can't use an empty string as an item value
+const NO_COLUMN = 'none';
+
+const ImportStopsDialog: React.FC<ImportStopsDialogProps> = ({ open, onOpenChange, onImport }) => {
+  const [step, setStep] = useState<ImportStep>('file');
+  const [error, setError] = useState<string | null>(null);
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [progress, setProgress] = useState(0);
+  const [results, setResults] = useState<ImportResult[]>([]);
+  const { t } = useTranslation();
+
+  const reset = () => {
+    setStep('file');
+    setError(null);
+    setTable(null);
+    setMapping({});
+    setProgress(0);
+    setResults([]);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const resolveRows = async (rows: ImportRow[]) => {
+    if (rows.length === 0) {
+      setError(t('import.noStops'));
+      setStep('file');
+      return;
+    }
+
+    setStep('resolving');
+    setProgress(0);
+    const resolved = await resolveImportRows(rows, (done, total) => setProgress((done / total) * 100));
+    setResults(resolved);
+    setStep('review');
+  };
+
+  const readFile = async (file: File) => {
+    setError(null);
+    const format = detectStopFileFormat(file.name);
+    if (!format) {
+      setError(t('import.unsupportedFile'));
+      return;
+    }
+
+    try {
+      const text = await file.text();
+      if (format === 'csv') {
+        const csv = parseCsv(text);
+        setTable(csv);
+        setMapping(guessCsvMapping(csv.headers));
+        setStep('columns');
+      } else {
+        await resolveRows(format === 'geojson' ? parseGeoJsonStops(text) : parseGpxStops(text));
+      }
+    } catch (readError) {
+      setError(t('import.unreadable', { file: file.name, format: format.toUpperCase() }));
+    }
+  };
+
+  const updateMapping = (field: keyof CsvColumnMapping, value: string) => {
+    setMapping({ ...mapping, [field]: value === NO_COLUMN ? undefined : Number(value) });
+  };
+
+  const hasCoordinates = mapping.latitude !== undefined && mapping.longitude !== undefined;
+  const canMapColumns = mapping.address !== undefined || hasCoordinates;
+  const places = results.filter((result) => result.place).map((result) => result.place!);
+  const failures = results.filter((result) => result.error);
+
+  const addStops = () => {
+    onImport(places);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{t('import.title')}</DialogTitle>
+          <DialogDescription>
+            {t('import.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="space-y-2">
+            <Input
+              type="file"
+              accept=".csv,.txt,.geojson,.json,.gpx"
+              onChange={(e) => e.target.files?.[0] && readFile(e.target.files[0])}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        )}
+
+        {step === 'columns' && table && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {t('import.columnsHint', { count: table.rows.length })}
+            </p>
+            {CSV_FIELDS.map(({ field, label }) => (
+              <div key={field} className="flex items-center justify-between gap-4">
+                <Label className="text-sm">{t(label)}</Label>
+                <Select
+                  value={mapping[field] === undefined ? NO_COLUMN : String(mapping[field])}
+                  onValueChange={(value) => updateMapping(field, value)}
+                >
+                  <SelectTrigger className="w-48 h-8 bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_COLUMN}>{t('import.notUsed')}</SelectItem>
+                    {table.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header || t('import.column', { number: index + 1 })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step === 'resolving' && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">{t('import.resolving')}</p>
+            <Progress value={progress} />
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-2">
+            <p className="text-sm">
+              {t('import.ready', { ready: places.length, total: results.length })}
+            </p>
+            {failures.length > 0 && (
+              <div className="max-h-48 overflow-y-auto space-y-1 rounded-md border border-border p-2">
+                {failures.map(({ row, error: rowError }, index) => (
+                  <div key={index} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+                    <span>
+                      {t('import.rowError', { line: row.line, name: row.name, error: t(rowError!) })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'columns' && table && (
+            <Button disabled={!canMapColumns} onClick={() => resolveRows(csvRowsToImport(table, mapping))}>
+              {t('import.continue')}
+            </Button>
+          )}
+          {step === 'review' && (
+            <>
+              <Button variant="outline" onClick={reset}>
+                {t('import.chooseAnother')}
+              </Button>
+              <Button disabled={places.length === 0} onClick={addStops}>
+                {t('import.add', { count: places.length })}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportStopsDialog;
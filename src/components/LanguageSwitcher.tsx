@@ -0,0 +1,41 @@
+import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useLanguagePreference } from '@/hooks/use-language-preference';
+import { useTranslation } from '@/hooks/use-translation';
+import { LANGUAGES, LANGUAGE_NAMES, browserLanguage, type Language } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+// Radix Select can't use null as an item value
+const AUTO = 'auto';
+
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className }) => {
+  const [preference, setPreference] = useLanguagePreference();
+  const { t } = useTranslation();
+
+  return (
+    <Select
+      value={preference ?? AUTO}
+      onValueChange={(value) => setPreference(value === AUTO ? null : (value as Language))}
+    >
+      <SelectTrigger className={cn("w-52 h-8 bg-background/50", className)} aria-label={t('language.label')}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO}>
+          {t('language.auto', { language: LANGUAGE_NAMES[browserLanguage()] })}
+        </SelectItem>
+        {LANGUAGES.map((language) => (
+          <SelectItem key={language} value={language} lang={language}>
+            {LANGUAGE_NAMES[language]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default LanguageSwitcher;
@@ -0,0 +1,112 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  RotateCcw,
+  Volume2,
+  VolumeX,
+  X,
+} from 'lucide-react';
+import type { StepManeuver } from '@/lib/mapbox';
+import type { NavigationProgress } from '@/lib/navigation';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatClockTime, formatDistance, formatDuration } from '@/lib/format';
+
+interface NavigationPanelProps {
+  progress: NavigationProgress | null;
+  isRerouting: boolean;
+  muted: boolean;
+  onToggleMute: () => void;
+  onExit: () => void;
+}
+
+const getManeuverIcon = (maneuver: StepManeuver | null) => {
+  if (!maneuver || maneuver.type === 'arrive') return Flag;
+  switch (maneuver.modifier) {
+    case 'uturn': return RotateCcw;
+    case 'sharp left':
+    case 'left': return CornerUpLeft;
+    case 'sharp right':
+    case 'right': return CornerUpRight;
+    case 'slight left': return ArrowUpLeft;
+    case 'slight right': return ArrowUpRight;
+    default: return ArrowUp;
+  }
+};
+
+const NavigationPanel: React.FC<NavigationPanelProps> = ({
+  progress,
+  isRerouting,
+  muted,
+  onToggleMute,
+  onExit
+}) => {
+  const { t } = useTranslation();
+  const ManeuverIcon = getManeuverIcon(progress?.nextManeuver ?? null);
+  const instruction = isRerouting
+    ? t('navigation.rerouting')
+    : progress?.banner?.primary.text
+    ?? progress?.nextManeuver?.instruction
+    ?? t('navigation.waitingForGps');
+  const arrivalTime = progress
+    ? formatClockTime(new Date(Date.now() + progress.durationRemaining * 1000))
+    : null;
+
+  return (
+    <>
+      {/* Next maneuver */}
+      <Card className="absolute top-4 left-4 right-4 bg-glass-bg backdrop-blur-md border-glass-border p-4">
+        <div className="flex items-center gap-4">
+          <div className="flex h-12 w-12 shrink-0 items-center justify-center rounded-lg bg-primary">
+            <ManeuverIcon className="h-7 w-7 text-primary-foreground" />
+          </div>
+          <div className="flex-1 min-w-0">
+            {progress && (
+              <div className="text-2xl font-semibold">{formatDistance(progress.distanceToManeuver)}</div>
+            )}
+            <div className="text-sm text-muted-foreground truncate">{instruction}</div>
+            {progress?.banner?.secondary && (
+              <div className="text-xs text-muted-foreground truncate">{progress.banner.secondary.text}</div>
+            )}
+          </div>
+        </div>
+      </Card>
+
+      {/* Trip progress */}
+      <Card className="absolute bottom-4 left-4 right-4 bg-glass-bg backdrop-blur-md border-glass-border p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div>
+            <div className="font-semibold">
+              {progress ? formatDuration(progress.durationRemaining) : '--'}
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {progress ? `${formatDistance(progress.distanceRemaining)} · ${arrivalTime}` : t('navigation.locating')}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onToggleMute}
+              className="bg-background/50 hover:bg-accent"
+            >
+              {muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
+            </Button>
+            <Button variant="destructive" size="sm" onClick={onExit}>
+              <X className="h-4 w-4 mr-1" />
+              {t('navigation.end')}
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </>
+  );
+};
+
+export default NavigationPanel;
@@ -0,0 +1,369 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type mapboxgl from 'mapbox-gl';
+import type { Feature, Polygon } from 'geojson';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card } from '@/components/ui/card';
+import { CloudDownload, SquareDashed, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useOfflineAreas } from '@/hooks/use-offline-areas';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatBytes, formatDate } from '@/lib/format';
+import { getConfig } from '@/lib/config';
+import type { MessageKey } from '@/lib/i18n';
+import { themeColor } from '@/lib/map-style';
+import {
+  DEFAULT_OFFLINE_ZOOM,
+  MAX_OFFLINE_TILES,
+  OFFLINE_ZOOM_LEVELS,
+  downloadOfflineArea,
+  estimateOfflineArea,
+  storageUsage,
+  type AreaBounds,
+} from '@/lib/offline-tiles';
+
+interface OfflineAreasDialogProps {
+  /** The loaded map to draw areas on */
+  map: mapboxgl.Map | null;
+}
+
+const ZOOM_LABELS: Record<number, MessageKey> = {
+  12: 'offline.zoom.12',
+  14: 'offline.zoom.14',
+  16: 'offline.zoom.16',
+};
+
+const AREA_SOURCE = 'offline-area';
+
+function areaPolygon([[west, south], [east, north]]: AreaBounds): Feature<Polygon> {
+  return {
+    type: 'Feature',
+    properties: {},
+    geometry: {
+      type: 'Polygon',
+      coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]],
+    },
+  };
+}
+
+function showArea(map: mapboxgl.Map, bounds: AreaBounds | null) {
+  const data = { type: 'FeatureCollection' as const, features: bounds ? [areaPolygon(bounds)] : [] };
+  const source = map.getSource(AREA_SOURCE) as mapboxgl.GeoJSONSource | undefined;
+  if (source) {
+    source.setData(data);
+    return;
+  }
+
+  map.addSource(AREA_SOURCE, { type: 'geojson', data });
+  map.addLayer({
+    id: 'offline-area-fill',
+    type: 'fill',
+    source: AREA_SOURCE,
+    paint: { 'fill-color': themeColor('--primary'), 'fill-opacity': 0.15 },
+  });
+  map.addLayer({
+    id: 'offline-area-outline',
+    type: 'line',
+    source: AREA_SOURCE,
+    paint: { 'line-color': themeColor('--primary'), 'line-width': 2, 'line-dasharray': [2, 2] },
+  });
+}
+
+const cornersToBounds = (a: mapboxgl.LngLat, b: mapboxgl.LngLat): AreaBounds => [
+  [Math.min(a.lng, b.lng), Math.min(a.lat, b.lat)],
+  [Math.max(a.lng, b.lng), Math.max(a.lat, b.lat)],
+];
+
+const OfflineAreasDialog: React.FC<OfflineAreasDialogProps> = ({ map }) => {
+  const { areas, addArea, removeArea } = useOfflineAreas();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isDrawing, setIsDrawing] = useState(false);
+  // The drawn area waiting to be downloaded
+  const [draft, setDraft] = useState<AreaBounds | null>(null);
+  const [name, setName] = useState('');
+  const [maxZoom, setMaxZoom] = useState(DEFAULT_OFFLINE_ZOOM);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [usage, setUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const download = useRef<AbortController | null>(null);
+  const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const zoomLabel = (zoom: number) => (ZOOM_LABELS[zoom] ? t(ZOOM_LABELS[zoom]) : t('offline.zoom', { zoom }));
+
+  useEffect(() => {
+    if (isOpen) storageUsage().then(setUsage);
+  }, [isOpen, areas]);
+
+  // Keep the outline of the area being drawn or downloaded on the map
+  useEffect(() => {
+    if (!map || isDrawing) return;
+    showArea(map, isOpen ? draft : null);
+  }, [map, isOpen, isDrawing, draft]);
+
+  // Dragging draws the area instead of panning the map
+  useEffect(() => {
+    if (!map || !isDrawing) return;
+
+    let start: mapboxgl.LngLat | null = null;
+    let end: mapboxgl.LngLat | null = null;
+
+    const handleStart = (e: mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent) => {
+      start = e.lngLat;
+      end = e.lngLat;
+    };
+    const handleMove = (e: mapboxgl.MapMouseEvent | mapboxgl.MapTouchEvent) => {
+      if (!start) return;
+      end = e.lngLat;
+      showArea(map, cornersToBounds(start, end));
+    };
+    // Touch end events have no position, so the last move is used
+    const handleEnd = () => {
+      if (!start || !end) return;
+      const bounds = cornersToBounds(start, end);
+      start = null;
+      if (bounds[0][0] === bounds[1][0] || bounds[0][1] === bounds[1][1]) return;
+      setDraft(bounds);
+      setIsDrawing(false);
+      setIsOpen(true);
+    };
+
+    map.dragPan.disable();
+    map.getCanvas().style.cursor = 'crosshair';
+    map.on('mousedown', handleStart);
+    map.on('touchstart', handleStart);
+    map.on('mousemove', handleMove);
+    map.on('touchmove', handleMove);
+    map.on('mouseup', handleEnd);
+    map.on('touchend', handleEnd);
+
+    return () => {
+      map.off('mousedown', handleStart);
+      map.off('touchstart', handleStart);
+      map.off('mousemove', handleMove);
+      map.off('touchmove', handleMove);
+      map.off('mouseup', handleEnd);
+      map.off('touchend', handleEnd);
+      map.getCanvas().style.cursor = '';
+      map.dragPan.enable();
+    };
+  }, [map, isDrawing]);
+
+  const estimate = draft ? estimateOfflineArea(draft, maxZoom) : null;
+  const isTooLarge = !!estimate && estimate.tileCount > MAX_OFFLINE_TILES;
+
+  const startDrawing = () => {
+    setDraft(null);
+    setName('');
+    setIsOpen(false);
+    setIsDrawing(true);
+  };
+
+  const close = () => {
+    download.current?.abort();
+    setDraft(null);
+    setIsOpen(false);
+  };
+
+  const downloadDraft = async () => {
+    if (!draft || !estimate || isTooLarge) return;
+
+    const controller = new AbortController();
+    download.current = controller;
+    const id = String(Date.now());
+    setProgress(0);
+    // Ask the browser not to evict the maps when storage runs low
+    await navigator.storage?.persist?.();
+
+    try {
+      const bytes = await downloadOfflineArea({ id, bounds: draft, maxZoom }, getConfig().map.style, {
+        onProgress: (done, total) => setProgress((done / total) * 100),
+        signal: controller.signal,
+      });
+      addArea({
+        id,
+        name: name.trim() || t('offline.defaultAreaName', { number: areas.length + 1 }),
+        bounds: draft,
+        maxZoom,
+        tileCount: estimate.tileCount,
+        bytes,
+        savedAt: Date.now(),
+      });
+      setDraft(null);
+      toast({
+        title: t('offline.downloaded.title'),
+        description: t('offline.downloaded.description', { size: formatBytes(bytes) }),
+      });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error downloading offline area:', error);
+        toast({
+          title: t('offline.failed.title'),
+          description: t('offline.failed.description'),
+          variant: "destructive"
+        });
+      }
+    } finally {
+      download.current = null;
+      setProgress(null);
+    }
+  };
+
+  const deleteArea = async (id: string) => {
+    try {
+      await removeArea(id);
+    } catch (error) {
+      console.error('Error deleting offline area:', error);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => (isDrawing ? setIsDrawing(false) : setIsOpen(true))}
+        title={t('offline.title')}
+      >
+        <CloudDownload className="h-4 w-4" />
+      </Button>
+
+      {isDrawing && (
+        <Card className="fixed bottom-4 left-1/2 z-10 -translate-x-1/2 bg-glass-bg backdrop-blur-md border-glass-border p-3 flex items-center gap-3">
+          <span className="text-sm">{t('offline.drawHint')}</span>
+          <Button variant="outline" size="sm" onClick={() => setIsDrawing(false)}>
+            {t('common.cancel')}
+          </Button>
+        </Card>
+      )}
+
+      <Dialog open={isOpen} onOpenChange={(open) => (open ? setIsOpen(true) : close())}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('offline.title')}</DialogTitle>
+            <DialogDescription>
+              {t('offline.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && estimate ? (
+            <div className="space-y-3">
+              <Input
+                placeholder={t('offline.areaName')}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={progress !== null}
+                className="bg-background/50"
+              />
+              <div className="flex items-center justify-between gap-4">
+                <Label className="text-sm">{t('offline.detail')}</Label>
+                <Select
+                  value={String(maxZoom)}
+                  onValueChange={(value) => setMaxZoom(Number(value))}
+                  disabled={progress !== null}
+                >
+                  <SelectTrigger className="w-36 h-8 bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OFFLINE_ZOOM_LEVELS.map((zoom) => (
+                      <SelectItem key={zoom} value={String(zoom)}>
+                        {zoomLabel(zoom)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {t('offline.estimate', { tiles: estimate.tileCount, size: formatBytes(estimate.bytes) })}
+              </p>
+              {isTooLarge && (
+                <p className="text-sm text-destructive">
+                  {t('offline.tooLarge')}
+                </p>
+              )}
+              {progress !== null && <Progress value={progress} />}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {areas.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  {t('offline.empty')}
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {areas.map((area) => (
+                    <div key={area.id} className="flex items-center justify-between gap-2 rounded-md border border-border p-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium truncate">{area.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {formatBytes(area.bytes)} · {zoomLabel(area.maxZoom)} · {formatDate(area.savedAt)}
+                        </div>
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            map?.fitBounds(area.bounds, { padding: 40 });
+                            setIsOpen(false);
+                          }}
+                          title={t('offline.showOnMap')}
+                        >
+                          <SquareDashed className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteArea(area.id)}
+                          className="text-muted-foreground hover:text-destructive"
+                          title={t('common.delete')}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {usage && (
+                <p className="text-xs text-muted-foreground">
+                  {t('offline.usage', { used: formatBytes(usage.usage), quota: formatBytes(usage.quota) })}
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {draft ? (
+              <>
+                <Button variant="outline" onClick={progress === null ? startDrawing : () => download.current?.abort()}>
+                  {progress === null ? t('offline.redraw') : t('common.cancel')}
+                </Button>
+                <Button onClick={downloadDraft} disabled={isTooLarge || progress !== null}>
+                  {t('offline.download')}
+                </Button>
+              </>
+            ) : (
+              <Button onClick={startDrawing} disabled={!map}>
+                {t('offline.draw')}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OfflineAreasDialog;
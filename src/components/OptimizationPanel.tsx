@@ -2,62 +2,136 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { MapPin, Zap, Clock, Route as RouteIcon } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MapPin, Zap, Clock, Route as RouteIcon, Upload } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Coordinates, DirectionsProfile, RoadExclusion } from '@/lib/mapbox';
+import { directionsQuery, fetchCached, geocodeQuery, optimizedTripQuery } from '@/lib/queries';
+import { PROFILES, supportedExclusions } from '@/lib/profiles';
+import { chunkCoordinates, joinRoutes, toRouteData, type Place, type TripTiming } from '@/lib/routes';
+import {
+  MAX_TIME_WINDOW_STOPS,
+  OPTIMIZED_TRIPS_COORDINATE_LIMIT,
+  durationMatrix,
+  scheduleEnd,
+  scheduleStops,
+  solveTspInWorker,
+  solveWithTimeWindows,
+  tripSavings,
+  type OptimizedTrip,
+  type StopConstraints,
+} from '@/lib/optimization';
+import { formatClockTime, formatDistance, formatDuration } from '@/lib/format';
+import { cn } from '@/lib/utils';
+import StopConstraintsPicker, { type StopConstraintsValue } from './StopConstraintsPicker';
+import ImportStopsDialog from './ImportStopsDialog';
+import SavedPlaceChips from './SavedPlaceChips';
 
 interface OptimizationPanelProps {
-  mapboxToken: string;
-  userLocation: [number, number] | null;
-  onOptimizedRoute: (coordinates: [number, number][], waypoints: string[]) => void;
+  origin: Coordinates | null;
+  profile: DirectionsProfile;
+  avoid: RoadExclusion[];
+  /** When the trip leaves; time windows are resolved against that day */
+  timing: TripTiming;
+  onOptimizedRoute: (trip: OptimizedTrip) => void;
 }
 
-interface Waypoint {
+interface Waypoint extends StopConstraintsValue {
   id: string;
   name: string;
-  coordinates: [number, number];
+  coordinates: Coordinates;
 }
 
+// Seconds from `from` until the given `HH:mm` later that day
+const secondsUntil = (time: string, from: Date) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const at = new Date(from);
+  at.setHours(hours, minutes, 0, 0);
+  return (at.getTime() - from.getTime()) / 1000;
+};
+
+// The trip's departure. Arriving by a time leaves it unknown until the trip is
+// routed, so count from the start of that day, or from now if that's later.
+const departureFor = (timing: TripTiming) => {
+  const now = new Date();
+  if (timing.type === 'now') return now;
+  if (timing.type === 'depart_at') return timing.time;
+  const dayStart = new Date(timing.time);
+  dayStart.setHours(0, 0, 0, 0);
+  return dayStart > now ? dayStart : now;
+};
+
+const toStopConstraints = (waypoint: Waypoint, departure: Date): StopConstraints => {
+  const { serviceMinutes, windowStart, windowEnd } = waypoint;
+  return {
+    serviceTime: serviceMinutes * 60,
+    window: windowStart || windowEnd
+      ? {
+          earliest: windowStart ? secondsUntil(windowStart, departure) : 0,
+          latest: windowEnd ? secondsUntil(windowEnd, departure) : Infinity,
+        }
+      : undefined,
+  };
+};
+
+const isLate = (schedule: OptimizedTrip['schedule']) => schedule.some((stop) => stop.late);
+
 const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
-  mapboxToken,
-  userLocation,
+  origin,
+  profile,
+  avoid,
+  timing,
   onOptimizedRoute
 }) => {
   const [waypoints, setWaypoints] = useState<Waypoint[]>([]);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [newWaypoint, setNewWaypoint] = useState('');
+  const [result, setResult] = useState<OptimizedTrip | null>(null);
+  const [departure, setDeparture] = useState(() => new Date());
+  const [roundTrip, setRoundTrip] = useState(false);
+  const [fixedEnd, setFixedEnd] = useState(true);
+  const [showImport, setShowImport] = useState(false);
   const { toast } = useToast();
+  const { t } = useTranslation();
+
+  const addPlace = (place: Place) => {
+    const newWaypoint: Waypoint = {
+      id: Date.now().toString(),
+      name: place.name,
+      coordinates: place.coordinates,
+      serviceMinutes: 0,
+      windowStart: '',
+      windowEnd: ''
+    };
+
+    setWaypoints(prev => [...prev, newWaypoint]);
+    setResult(null);
+  };
 
   const addWaypoint = async (placeName: string) => {
-    if (!placeName.trim() || !mapboxToken) return;
+    if (!placeName.trim()) return;
 
     try {
       // Geocode the place name
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(placeName)}.json?access_token=${mapboxToken}&limit=1`
-      );
-      const data = await response.json();
+      const data = await fetchCached(geocodeQuery(placeName));
 
       if (data.features && data.features.length > 0) {
         const feature = data.features[0];
-        const newWaypoint: Waypoint = {
-          id: Date.now().toString(),
-          name: feature.place_name,
-          coordinates: feature.center
-        };
-
-        setWaypoints(prev => [...prev, newWaypoint]);
+        addPlace({ name: feature.place_name, coordinates: feature.center });
         setNewWaypoint('');
       } else {
         toast({
-          title: "Location not found",
-          description: "Please try a different location.",
+          title: t('optimization.locationNotFound.title'),
+          description: t('common.tryDifferentLocation'),
           variant: "destructive"
         });
       }
     } catch (error) {
       toast({
-        title: "Error adding waypoint",
-        description: "Please try again.",
+        title: t('optimization.addError.title'),
+        description: t('common.tryAgain'),
         variant: "destructive"
       });
     }
@@ -65,13 +139,54 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
 
   const removeWaypoint = (id: string) => {
     setWaypoints(prev => prev.filter(wp => wp.id !== id));
+    setResult(null);
+  };
+
+  const importWaypoints = (places: Place[]) => {
+    const importedAt = Date.now();
+    setWaypoints(prev => [
+      ...prev,
+      ...places.map((place, index) => ({
+        id: `${importedAt}-${index}`,
+        name: place.name,
+        coordinates: place.coordinates,
+        serviceMinutes: 0,
+        windowStart: '',
+        windowEnd: ''
+      }))
+    ]);
+    setResult(null);
+    toast({
+      title: t('optimization.imported.title'),
+      description: t('optimization.imported.description', { count: places.length }),
+    });
+  };
+
+  const updateConstraints = (id: string, constraints: StopConstraintsValue) => {
+    setWaypoints(prev => prev.map(wp => (wp.id === id ? { ...wp, ...constraints } : wp)));
+    setResult(null);
+  };
+
+  // Optimized Trips has no exclude parameter and no turn-by-turn steps, so
+  // every order is routed through Directions. That also keeps the optimized
+  // and original orders comparable. Long stop lists take several requests.
+  const routeInOrder = async (coordinates: Coordinates[]) => {
+    const responses = await Promise.all(
+      chunkCoordinates(coordinates).map((chunk) => fetchCached(directionsQuery(chunk, {
+        profile,
+        exclude: supportedExclusions(profile, avoid),
+        annotations: PROFILES[profile].hasTraffic ? ['congestion', 'distance'] : ['distance'],
+        steps: true,
+      })))
+    );
+    return toRouteData(joinRoutes(responses.map((directions) => directions.routes[0])), profile);
   };
 
   const optimizeRoute = async () => {
-    if (!userLocation || waypoints.length < 2) {
+    if (!origin || waypoints.length < 2) {
       toast({
-        title: "Need more waypoints",
-        description: "Add at least 2 destinations to optimize.",
+        title: t('optimization.needMore.title'),
+        description: t('optimization.needMore.description'),
         variant: "destructive"
       });
       return;
@@ -80,38 +195,100 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
     setIsOptimizing(true);
 
     try {
-      // Build coordinates string for Optimization API
-      const allCoordinates = [userLocation, ...waypoints.map(wp => wp.coordinates)];
-      const coordinatesString = allCoordinates.map(coord => `${coord[0]},${coord[1]}`).join(';');
-
-      // Call Mapbox Optimization API
-      const response = await fetch(
-        `https://api.mapbox.com/optimized-trips/v1/mapbox/driving-traffic/${coordinatesString}?access_token=${mapboxToken}&source=first&destination=last&roundtrip=false&overview=full&geometries=geojson`
-      );
-      const data = await response.json();
-
-      if (data.trips && data.trips.length > 0) {
-        const optimizedTrip = data.trips[0];
-        const optimizedCoordinates = optimizedTrip.geometry.coordinates;
-        const waypointOrder = optimizedTrip.waypoints;
-        
-        // Get the optimized waypoint names in order
-        const optimizedWaypoints = waypointOrder.map((wp: any, index: number) => {
-          if (index === 0) return "Your Location";
-          return waypoints[wp.waypoint_index - 1]?.name || `Stop ${index}`;
-        });
+      const departsAt = departureFor(timing);
+      const places: Place[] = [
+        { name: t('optimization.start'), coordinates: origin },
+        ...waypoints.map(({ name, coordinates }) => ({ name, coordinates })),
+      ];
+      const coordinates = places.map((place) => place.coordinates);
+      const constraints = waypoints.map((waypoint) => toStopConstraints(waypoint, departsAt));
 
-        onOptimizedRoute(optimizedCoordinates, optimizedWaypoints);
+      // Visiting orders as indices into `places`, starting with the start
+      const originalOrder = places.map((_, index) => index).concat(roundTrip ? [0] : []);
+      let optimizedOrder: number[];
 
-        toast({
-          title: "Route Optimized! 🎯",
-          description: `Saved ${Math.round((data.trips[0].duration - (data.trips[0].duration * 0.8)) / 60)} minutes vs unoptimized route.`,
-        });
+      if (constraints.some((stop) => stop.window)) {
+        if (waypoints.length > MAX_TIME_WINDOW_STOPS) {
+          toast({
+            title: t('optimization.tooManyWindows.title'),
+            description: t('optimization.tooManyWindows.description', { max: MAX_TIME_WINDOW_STOPS }),
+            variant: "destructive"
+          });
+          return;
+        }
+
+        // Optimized Trips has no notion of time windows, so solve those locally
+        const matrix = await durationMatrix(coordinates, profile);
+        const solved = solveWithTimeWindows(matrix, constraints, { roundTrip, fixedEnd });
+        if (!solved) {
+          toast({
+            title: t('optimization.noWindowOrder.title'),
+            description: t('optimization.noWindowOrder.description'),
+            variant: "destructive"
+          });
+          return;
+        }
+        optimizedOrder = solved;
+      } else if (coordinates.length > OPTIMIZED_TRIPS_COORDINATE_LIMIT || (!roundTrip && !fixedEnd)) {
+        // Beyond what Optimized Trips takes, or for an open end, which it only
+        // supports on round trips, solve over a travel time matrix
+        const matrix = await durationMatrix(coordinates, profile);
+        optimizedOrder = await solveTspInWorker(matrix, { roundTrip, fixedEnd });
+      } else {
+        const data = await fetchCached(optimizedTripQuery(coordinates, {
+          profile,
+          source: 'first',
+          destination: roundTrip ? 'any' : 'last',
+          roundtrip: roundTrip,
+        }));
+        if (!data.trips || data.trips.length === 0) throw new Error('Optimized Trips returned no trip');
+
+        // Response waypoints follow input order; waypoint_index is the position in the trip
+        optimizedOrder = data.waypoints
+          .map((wp, inputIndex) => ({ inputIndex, tripIndex: wp.waypoint_index }))
+          .sort((a, b) => a.tripIndex - b.tripIndex)
+          .map(({ inputIndex }) => inputIndex)
+          .concat(roundTrip ? [0] : []);
       }
+
+      const planOrder = async (order: number[]) => {
+        const route = await routeInOrder(order.map((index) => coordinates[index]));
+        const schedule = scheduleStops(
+          route.legs.map((leg) => leg.duration),
+          order.slice(1).map((index) => (index === 0 ? { serviceTime: 0 } : constraints[index - 1]))
+        );
+        return { stops: order.map((index) => places[index]), route, schedule };
+      };
+
+      const [optimized, original] = await Promise.all([planOrder(optimizedOrder), planOrder(originalOrder)]);
+
+      // The optimizer works from its own travel times, so its order can come
+      // out slower once routed; keep the user's then, unless that runs late
+      const useOptimized = isLate(original.schedule)
+        || scheduleEnd(optimized.schedule) < scheduleEnd(original.schedule);
+      const chosen = useOptimized ? optimized : original;
+      const trip: OptimizedTrip = {
+        ...chosen,
+        originalRoute: original.route,
+        originalSchedule: original.schedule,
+      };
+      const saved = tripSavings(trip);
+
+      setDeparture(departsAt);
+      setResult(trip);
+      onOptimizedRoute(trip);
+
+      // An optimized order chosen to meet time windows may not save any time
+      toast({
+        title: useOptimized ? t('optimization.optimized.title') : t('optimization.alreadyOptimal.title'),
+        description: saved.duration > 0
+          ? t('optimization.optimized.description', { duration: formatDuration(saved.duration) })
+          : useOptimized ? undefined : t('optimization.alreadyFastest'),
+      });
     } catch (error) {
       toast({
-        title: "Optimization failed",
-        description: "Please try again with fewer waypoints.",
+        title: t('optimization.failed.title'),
+        description: t('common.tryAgain'),
         variant: "destructive"
       });
     } finally {
@@ -121,17 +298,20 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
 
   const clearWaypoints = () => {
     setWaypoints([]);
+    setResult(null);
   };
 
+  const savings = result && tripSavings(result);
+
   return (
     <Card className="w-full">
       <CardHeader className="pb-3">
         <CardTitle className="flex items-center gap-2 text-lg">
           <Zap className="h-5 w-5 text-primary" />
-          Route Optimization
+          {t('optimization.title')}
         </CardTitle>
         <CardDescription>
-          Add multiple stops to find the most efficient route order
+          {t('optimization.description')}
         </CardDescription>
       </CardHeader>
       
@@ -140,7 +320,7 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
         <div className="flex gap-2">
           <input
             type="text"
-            placeholder="Add destination..."
+            placeholder={t('optimization.addPlaceholder')}
             value={newWaypoint}
             onChange={(e) => setNewWaypoint(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && addWaypoint(newWaypoint)}
@@ -153,12 +333,24 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
           >
             <MapPin className="h-4 w-4" />
           </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowImport(true)}
+            title={t('optimization.import')}
+          >
+            <Upload className="h-4 w-4" />
+          </Button>
         </div>
+        <ImportStopsDialog open={showImport} onOpenChange={setShowImport} onImport={importWaypoints} />
+        <SavedPlaceChips onSelect={addPlace} />
 
         {/* Waypoints list */}
         {waypoints.length > 0 && (
           <div className="space-y-2">
-            <h4 className="text-sm font-medium text-muted-foreground">Destinations ({waypoints.length})</h4>
+            <h4 className="text-sm font-medium text-muted-foreground">
+              {t('optimization.destinations', { count: waypoints.length })}
+            </h4>
             {waypoints.map((waypoint, index) => (
               <div key={waypoint.id} className="flex items-center justify-between p-2 bg-muted rounded-lg">
                 <div className="flex items-center gap-2">
@@ -169,35 +361,120 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
                     {waypoint.name.split(',')[0]}
                   </span>
                 </div>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => removeWaypoint(waypoint.id)}
-                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
-                >
-                  ×
-                </Button>
+                <div className="flex items-center gap-1">
+                  <StopConstraintsPicker
+                    value={waypoint}
+                    onChange={(constraints) => updateConstraints(waypoint.id, constraints)}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => removeWaypoint(waypoint.id)}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                  >
+                    ×
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
         )}
 
+        {/* Trip shape */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="round-trip" className="text-sm">{t('optimization.returnToStart')}</Label>
+            <Switch
+              id="round-trip"
+              checked={roundTrip}
+              onCheckedChange={(checked) => {
+                setRoundTrip(checked);
+                setResult(null);
+              }}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="fixed-end" className={cn("text-sm", roundTrip && "text-muted-foreground")}>
+              {t('optimization.finishAtLast')}
+            </Label>
+            <Switch
+              id="fixed-end"
+              checked={fixedEnd && !roundTrip}
+              disabled={roundTrip}
+              onCheckedChange={(checked) => {
+                setFixedEnd(checked);
+                setResult(null);
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Optimization results */}
+        {result && savings && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium text-muted-foreground">{t('optimization.optimizedOrder')}</h4>
+              <span className="text-sm font-medium">
+                {formatDuration(scheduleEnd(result.schedule))} · {formatDistance(result.route.distance)}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {savings.duration > 0
+                ? t('optimization.savings', {
+                    duration: formatDuration(savings.duration),
+                    distance: formatDistance(Math.max(savings.distance, 0)),
+                    originalDuration: formatDuration(scheduleEnd(result.originalSchedule)),
+                    originalDistance: formatDistance(result.originalRoute.distance),
+                  })
+                : t('optimization.alreadyFastest')}
+            </p>
+            {result.stops.slice(1).map((stop, index) => {
+              const leg = result.route.legs[index];
+              const scheduled = result.schedule[index];
+              return (
+                <div key={index} className="flex items-center justify-between gap-2 text-sm">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="secondary" className="text-xs">
+                      {index + 1}
+                    </Badge>
+                    <span className="truncate">
+                      {stop === result.stops[0] ? t('optimization.backToStart') : stop.name.split(',')[0]}
+                    </span>
+                    {scheduled?.late && (
+                      <Badge variant="destructive" className="text-xs">{t('optimization.late')}</Badge>
+                    )}
+                  </div>
+                  {leg && scheduled && (
+                    <span className="shrink-0 text-right text-muted-foreground">
+                      {formatDuration(leg.duration)} · {formatDistance(leg.distance)}
+                      <span className="block text-xs">
+                        {t('route.arrive', { time: formatClockTime(new Date(departure.getTime() + scheduled.arrival * 1000)) })}
+                        {scheduled.wait > 0 && t('optimization.wait', { duration: formatDuration(scheduled.wait) })}
+                      </span>
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Action buttons */}
         <div className="flex gap-2 pt-2">
           <Button 
             onClick={optimizeRoute}
-            disabled={waypoints.length < 2 || isOptimizing || !userLocation}
+            disabled={waypoints.length < 2 || isOptimizing || !origin}
             className="flex-1"
           >
             {isOptimizing ? (
               <>
                 <Clock className="h-4 w-4 mr-2 animate-spin" />
-                Optimizing...
+                {t('optimization.optimizing')}
               </>
             ) : (
               <>
                 <RouteIcon className="h-4 w-4 mr-2" />
-                Optimize Route
+                {t('optimization.optimize')}
               </>
             )}
           </Button>
@@ -208,7 +485,7 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
               onClick={clearWaypoints}
               size="sm"
             >
-              Clear
+              {t('common.clear')}
             </Button>
           )}
         </div>
@@ -216,7 +493,7 @@ const OptimizationPanel: React.FC<OptimizationPanelProps> = ({
         {/* Info text */}
         {waypoints.length < 2 && (
           <p className="text-xs text-muted-foreground text-center">
-            Add 2+ destinations to optimize your route
+            {t('optimization.hint')}
           </p>
         )}
       </CardContent>
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
+import { SlidersHorizontal } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import type { DirectionsProfile, RoadExclusion } from '@/lib/mapbox';
+import { PROFILES, ROAD_EXCLUSION_LABELS } from '@/lib/profiles';
+import { cn } from '@/lib/utils';
+
+interface RoutePreferencesProps {
+  avoid: RoadExclusion[];
+  profile: DirectionsProfile;
+  onChange: (avoid: RoadExclusion[]) => void;
+}
+
+const RoutePreferences: React.FC<RoutePreferencesProps> = ({ avoid, profile, onChange }) => {
+  const { t } = useTranslation();
+
+  const toggleExclusion = (exclusion: RoadExclusion, enabled: boolean) => {
+    onChange(enabled ? [...avoid, exclusion] : avoid.filter((item) => item !== exclusion));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={avoid.length > 0 ? "default" : "outline"}
+          size="sm"
+          className={cn(avoid.length === 0 && "bg-background/50 hover:bg-accent")}
+          title={t('preferences.title')}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <h4 className="text-sm font-medium">{t('preferences.avoid')}</h4>
+        {(Object.keys(ROAD_EXCLUSION_LABELS) as RoadExclusion[]).map((exclusion) => {
+          const supported = PROFILES[profile].exclusions.includes(exclusion);
+          return (
+            <div key={exclusion} className="flex items-center justify-between gap-2">
+              <Label
+                htmlFor={`avoid-${exclusion}`}
+                className={cn("text-sm", !supported && "text-muted-foreground")}
+              >
+                {t(ROAD_EXCLUSION_LABELS[exclusion])}
+              </Label>
+              <Switch
+                id={`avoid-${exclusion}`}
+                checked={avoid.includes(exclusion)}
+                onCheckedChange={(checked) => toggleExclusion(exclusion, checked)}
+              />
+            </div>
+          );
+        })}
+        {PROFILES[profile].exclusions.length < Object.keys(ROAD_EXCLUSION_LABELS).length && (
+          <p className="text-xs text-muted-foreground">
+            {t('preferences.unsupported', { profile: t(PROFILES[profile].label) })}
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RoutePreferences;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useSavedPlaces, type SavedPlaceKind } from '@/hooks/use-saved-places';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Place } from '@/lib/routes';
+
+interface SavePlaceDialogProps {
+  /** The place to save; the dialog is open while this is set */
+  place: Place | null;
+  onClose: () => void;
+}
+
+const SavePlaceDialog: React.FC<SavePlaceDialogProps> = ({ place, onClose }) => {
+  const { savePlace } = useSavedPlaces();
+  const [kind, setKind] = useState<SavedPlaceKind>('custom');
+  const [label, setLabel] = useState('');
+  const { t } = useTranslation();
+
+  // Start each save as a custom place labelled with the place's short name
+  useEffect(() => {
+    if (!place) return;
+    setKind('custom');
+    setLabel(place.name.split(',')[0]);
+  }, [place]);
+
+  const save = () => {
+    if (!place) return;
+    savePlace(place, kind, label);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!place} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{t('savedPlaces.save')}</DialogTitle>
+          <DialogDescription className="truncate">{place?.name}</DialogDescription>
+        </DialogHeader>
+
+        <ToggleGroup
+          type="single"
+          value={kind}
+          onValueChange={(next) => next && setKind(next as SavedPlaceKind)}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="home" size="sm">{t('savedPlaces.home')}</ToggleGroupItem>
+          <ToggleGroupItem value="work" size="sm">{t('savedPlaces.work')}</ToggleGroupItem>
+          <ToggleGroupItem value="custom" size="sm">{t('savedPlaces.other')}</ToggleGroupItem>
+        </ToggleGroup>
+
+        {kind === 'custom' && (
+          <Input
+            placeholder={t('savedPlaces.label')}
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            className="bg-background/50"
+          />
+        )}
+
+        <DialogFooter>
+          <Button onClick={save}>{t('common.save')}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SavePlaceDialog;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Briefcase, Home, Plus, Star } from 'lucide-react';
+import { savedPlaceLabel, useSavedPlaces, type SavedPlace, type SavedPlaceKind } from '@/hooks/use-saved-places';
+import { useTranslation } from '@/hooks/use-translation';
+import { cn } from '@/lib/utils';
+
+interface SavedPlaceChipsProps {
+  onSelect: (place: SavedPlace) => void;
+  /** Shows a chip for saving a new place, e.g. by picking it on the map */
+  onAdd?: () => void;
+  isAdding?: boolean;
+}
+
+const SAVED_PLACE_ICONS: Record<SavedPlaceKind, React.ComponentType<{ className?: string }>> = {
+  home: Home,
+  work: Briefcase,
+  custom: Star,
+};
+
+const SavedPlaceChips: React.FC<SavedPlaceChipsProps> = ({ onSelect, onAdd, isAdding = false }) => {
+  const { places, removePlace } = useSavedPlaces();
+  const { t } = useTranslation();
+
+  if (places.length === 0 && !onAdd) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {places.map((place) => {
+        const Icon = SAVED_PLACE_ICONS[place.kind];
+        const label = savedPlaceLabel(place);
+        return (
+          <div key={place.id} className="group flex items-center rounded-full bg-secondary text-secondary-foreground">
+            <button
+              className="flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs"
+              onClick={() => onSelect(place)}
+              title={place.name}
+            >
+              <Icon className="h-3 w-3" />
+              <span className="max-w-24 truncate">{label}</span>
+            </button>
+            <button
+              className="pr-2 text-xs text-muted-foreground hover:text-destructive"
+              onClick={() => removePlace(place.id)}
+              title={t('savedPlaces.remove', { label })}
+            >
+              ×
+            </button>
+          </div>
+        );
+      })}
+      {onAdd && (
+        <Button
+          variant={isAdding ? "default" : "outline"}
+          size="sm"
+          className={cn("h-6 rounded-full px-2 text-xs", !isAdding && "bg-background/50")}
+          onClick={onAdd}
+          title={t('savedPlaces.pickOnMap')}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          {t('savedPlaces.save')}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SavedPlaceChips;
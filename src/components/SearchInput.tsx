@@ -1,46 +1,102 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { MapPin, Route, Search, Navigation } from 'lucide-react';
+import { MapPin, Route, Search, Navigation, Star } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import type { Coordinates } from '@/lib/mapbox';
+import { geocodeQuery } from '@/lib/queries';
+import { savedPlaceLabel, useSavedPlaces, type SavedPlaceKind } from '@/hooks/use-saved-places';
+import { useTripHistory } from '@/hooks/use-trip-history';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Place } from '@/lib/routes';
+import SavePlaceDialog from './SavePlaceDialog';
 
 interface Suggestion {
   id: string;
-  place_name: string;
-  center: [number, number];
-  place_type: string[];
+  name: string;
+  coordinates: Coordinates;
+  /** Heading shown in place of the first part of the name, e.g. a saved label */
+  title?: string;
+  placeTypes: string[];
+  savedKind?: SavedPlaceKind;
+  isRecent?: boolean;
 }
 
+const SUGGESTION_TYPES = ['place', 'locality', 'neighborhood', 'address', 'poi'];
+
+const SAVED_PLACE_ICONS: Record<SavedPlaceKind, string> = {
+  home: '🏠',
+  work: '💼',
+  custom: '⭐',
+};
+
 interface SearchInputProps {
-  mapboxToken: string;
-  onDestinationSelect: (destination: string, coordinates?: [number, number]) => void;
+  onDestinationSelect: (destination: string, coordinates?: Coordinates) => void;
   isLoading: boolean;
+  placeholder?: string;
+  /** Text to show when the place is set from outside the input */
+  value?: string;
+  icon?: React.ReactNode;
+  showSubmit?: boolean;
 }
 
 const SearchInput: React.FC<SearchInputProps> = ({ 
-  mapboxToken, 
   onDestinationSelect, 
-  isLoading 
+  isLoading,
+  placeholder,
+  value,
+  icon = <MapPin className="h-4 w-4 text-primary" />,
+  showSubmit = true
 }) => {
   const [query, setQuery] = useState('');
-  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  // The typed text once it has settled, which is what gets geocoded
+  const [searchQuery, setSearchQuery] = useState('');
+  const [placeToSave, setPlaceToSave] = useState<Place | null>(null);
+  const { places: savedPlaces } = useSavedPlaces();
+  const { recentDestinations } = useTripHistory();
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const { t } = useTranslation();
   const [selectedIndex, setSelectedIndex] = useState(-1);
   const searchRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  // Text that was set by a selection rather than typed, so it isn't searched again
+  const settledQuery = useRef('');
+
+  useEffect(() => {
+    if (value === undefined) return;
+    settledQuery.current = value;
+    setQuery(value);
+  }, [value]);
 
   // Debounced search
   useEffect(() => {
     const timeoutId = setTimeout(() => {
-      if (query.length > 2) {
-        searchSuggestions(query);
-      } else {
-        setSuggestions([]);
-        setShowSuggestions(false);
-      }
+      if (query === settledQuery.current) return;
+      setSearchQuery(query.length > 2 ? query.trim() : '');
+      setSelectedIndex(-1);
     }, 300);
 
     return () => clearTimeout(timeoutId);
-  }, [query, mapboxToken]);
+  }, [query]);
+
+  // A new search key drops the previous query, which cancels its request
+  const { data: suggestionData, error: suggestionError } = useQuery({
+    ...geocodeQuery(searchQuery, { limit: 5, types: SUGGESTION_TYPES }),
+    enabled: searchQuery !== '',
+  });
+
+  useEffect(() => {
+    if (suggestionError) console.error('Error fetching suggestions:', suggestionError);
+  }, [suggestionError]);
+
+  const suggestions: Suggestion[] = searchQuery
+    ? (suggestionData?.features ?? []).map((feature) => ({
+        id: feature.id,
+        name: feature.place_name,
+        coordinates: feature.center,
+        placeTypes: feature.place_type,
+      }))
+    : [];
 
   // Close suggestions when clicking outside
   useEffect(() => {
@@ -54,31 +110,41 @@ const SearchInput: React.FC<SearchInputProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const searchSuggestions = async (searchQuery: string) => {
-    if (!mapboxToken || !searchQuery.trim()) return;
-
-    try {
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(searchQuery)}.json?access_token=${mapboxToken}&limit=5&types=place,locality,neighborhood,address,poi`
-      );
-      const data = await response.json();
-
-      if (data.features) {
-        setSuggestions(data.features);
-        setShowSuggestions(true);
-        setSelectedIndex(-1);
-      }
-    } catch (error) {
-      console.error('Error fetching suggestions:', error);
-    }
-  };
+  // Saved places matching the typed text come first; all of them while nothing is typed
+  const searchText = query === settledQuery.current ? '' : query.trim().toLowerCase();
+  const savedSuggestions: Suggestion[] = savedPlaces
+    .filter((place) => !searchText
+      || savedPlaceLabel(place).toLowerCase().includes(searchText)
+      || place.name.toLowerCase().includes(searchText))
+    .map((place) => ({
+      id: place.id,
+      name: place.name,
+      coordinates: place.coordinates,
+      title: savedPlaceLabel(place),
+      placeTypes: [],
+      savedKind: place.kind,
+    }));
+  // Recent destinations fill an empty input, minus any that are saved anyway
+  const recentSuggestions: Suggestion[] = query.trim()
+    ? []
+    : recentDestinations
+      .filter((recent) => !savedPlaces.some((place) => place.name === recent.name))
+      .map((recent) => ({
+        id: `recent-${recent.searchedAt}`,
+        name: recent.name,
+        coordinates: recent.coordinates,
+        placeTypes: [],
+        isRecent: true,
+      }));
+  const entries = [...savedSuggestions, ...recentSuggestions, ...suggestions];
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setQuery(e.target.value);
+    setShowSuggestions(true);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!showSuggestions || suggestions.length === 0) {
+    if (!showSuggestions || entries.length === 0) {
       if (e.key === 'Enter') {
         handleSearch();
       }
@@ -89,7 +155,7 @@ const SearchInput: React.FC<SearchInputProps> = ({
       case 'ArrowDown':
         e.preventDefault();
         setSelectedIndex(prev => 
-          prev < suggestions.length - 1 ? prev + 1 : prev
+          prev < entries.length - 1 ? prev + 1 : prev
         );
         break;
       case 'ArrowUp':
@@ -99,7 +165,7 @@ const SearchInput: React.FC<SearchInputProps> = ({
       case 'Enter':
         e.preventDefault();
         if (selectedIndex >= 0) {
-          selectSuggestion(suggestions[selectedIndex]);
+          selectSuggestion(entries[selectedIndex]);
         } else {
           handleSearch();
         }
@@ -112,11 +178,12 @@ const SearchInput: React.FC<SearchInputProps> = ({
   };
 
   const selectSuggestion = (suggestion: Suggestion) => {
-    setQuery(suggestion.place_name);
+    settledQuery.current = suggestion.name;
+    setQuery(suggestion.name);
     setShowSuggestions(false);
-    setSuggestions([]);
+    setSearchQuery('');
     setSelectedIndex(-1);
-    onDestinationSelect(suggestion.place_name, suggestion.center);
+    onDestinationSelect(suggestion.name, suggestion.coordinates);
   };
 
   const handleSearch = () => {
@@ -126,7 +193,9 @@ const SearchInput: React.FC<SearchInputProps> = ({
     }
   };
 
-  const getPlaceIcon = (placeTypes: string[]) => {
+  const getPlaceIcon = ({ placeTypes, savedKind, isRecent }: Suggestion) => {
+    if (savedKind) return SAVED_PLACE_ICONS[savedKind];
+    if (isRecent) return '🕘';
     if (placeTypes.includes('poi')) return '📍';
     if (placeTypes.includes('address')) return '🏠';
     if (placeTypes.includes('neighborhood')) return '🏘️';
@@ -139,16 +208,16 @@ const SearchInput: React.FC<SearchInputProps> = ({
     <div className="flex gap-2" ref={searchRef}>
       <div className="flex-1 relative">
         <div className="flex items-center gap-2">
-          <MapPin className="h-4 w-4 text-primary" />
+          {icon}
           <div className="relative flex-1">
             <Input
               ref={inputRef}
-              placeholder="Enter destination..."
+              placeholder={placeholder ?? t('search.placeholder')}
               value={query}
               onChange={handleInputChange}
               onKeyDown={handleKeyDown}
               onFocus={() => {
-                if (suggestions.length > 0) {
+                if (entries.length > 0) {
                   setShowSuggestions(true);
                 }
               }}
@@ -160,43 +229,62 @@ const SearchInput: React.FC<SearchInputProps> = ({
         </div>
 
         {/* Suggestions Dropdown */}
-        {showSuggestions && suggestions.length > 0 && (
+        {showSuggestions && entries.length > 0 && (
           <div className="absolute top-full left-6 right-0 mt-1 bg-card border border-border rounded-md shadow-lg z-50 max-h-60 overflow-y-auto">
-            {suggestions.map((suggestion, index) => (
-              <button
+            {entries.map((suggestion, index) => (
+              <div
                 key={suggestion.id}
-                className={`w-full text-left px-3 py-2 hover:bg-accent transition-colors border-b border-border last:border-b-0 ${
+                className={`flex items-center hover:bg-accent transition-colors border-b border-border last:border-b-0 ${
                   index === selectedIndex ? 'bg-accent' : ''
                 }`}
-                onClick={() => selectSuggestion(suggestion)}
                 onMouseEnter={() => setSelectedIndex(index)}
               >
-                <div className="flex items-start gap-2">
-                  <span className="text-sm mt-0.5">
-                    {getPlaceIcon(suggestion.place_type)}
-                  </span>
-                  <div className="flex-1 min-w-0">
-                    <div className="text-sm font-medium text-foreground truncate">
-                      {suggestion.place_name.split(',')[0]}
-                    </div>
-                    <div className="text-xs text-muted-foreground truncate">
-                      {suggestion.place_name.split(',').slice(1).join(',').trim()}
+                <button
+                  className="flex-1 min-w-0 text-left px-3 py-2"
+                  onClick={() => selectSuggestion(suggestion)}
+                >
+                  <div className="flex items-start gap-2">
+                    <span className="text-sm mt-0.5">
+                      {getPlaceIcon(suggestion)}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-foreground truncate">
+                        {suggestion.title ?? suggestion.name.split(',')[0]}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {suggestion.title ? suggestion.name : suggestion.name.split(',').slice(1).join(',').trim()}
+                      </div>
                     </div>
                   </div>
-                </div>
-              </button>
+                </button>
+                {!suggestion.savedKind && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 mr-1 text-muted-foreground"
+                    onClick={() => setPlaceToSave({ name: suggestion.name, coordinates: suggestion.coordinates })}
+                    title={t('savedPlaces.save')}
+                  >
+                    <Star className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
             ))}
           </div>
         )}
       </div>
 
-      <Button 
-        onClick={handleSearch}
-        disabled={!query.trim() || isLoading}
-        size="sm"
-      >
-        <Route className="h-4 w-4" />
-      </Button>
+      <SavePlaceDialog place={placeToSave} onClose={() => setPlaceToSave(null)} />
+
+      {showSubmit && (
+        <Button 
+          onClick={handleSearch}
+          disabled={!query.trim() || isLoading}
+          size="sm"
+        >
+          <Route className="h-4 w-4" />
+        </Button>
+      )}
     </div>
   );
 };
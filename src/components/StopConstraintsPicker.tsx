@@ -0,0 +1,73 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Timer } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import { cn } from '@/lib/utils';
+
+export interface StopConstraintsValue {
+  serviceMinutes: number;
+  /** Local clock times as `HH:mm`; empty when the window is open on that side */
+  windowStart: string;
+  windowEnd: string;
+}
+
+interface StopConstraintsPickerProps {
+  value: StopConstraintsValue;
+  onChange: (value: StopConstraintsValue) => void;
+}
+
+const StopConstraintsPicker: React.FC<StopConstraintsPickerProps> = ({ value, onChange }) => {
+  const { t } = useTranslation();
+  const isSet = value.serviceMinutes > 0 || !!value.windowStart || !!value.windowEnd;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          size="sm"
+          variant="ghost"
+          className={cn("h-6 w-6 p-0", isSet ? "text-primary" : "text-muted-foreground")}
+          title={t('constraints.title')}
+        >
+          <Timer className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="space-y-1">
+          <Label htmlFor="service-time" className="text-sm">{t('constraints.serviceTime')}</Label>
+          <Input
+            id="service-time"
+            type="number"
+            min={0}
+            value={value.serviceMinutes}
+            onChange={(e) => onChange({ ...value, serviceMinutes: Math.max(0, Number(e.target.value) || 0) })}
+            className="bg-background/50"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm">{t('constraints.window')}</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="time"
+              value={value.windowStart}
+              onChange={(e) => onChange({ ...value, windowStart: e.target.value })}
+              className="bg-background/50"
+            />
+            <span className="text-muted-foreground">–</span>
+            <Input
+              type="time"
+              value={value.windowEnd}
+              onChange={(e) => onChange({ ...value, windowEnd: e.target.value })}
+              className="bg-background/50"
+            />
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default StopConstraintsPicker;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { GripVertical } from 'lucide-react';
+import type { Place } from '@/lib/routes';
+import { cn } from '@/lib/utils';
+
+interface StopListProps {
+  stops: Place[];
+  onChange: (stops: Place[]) => void;
+}
+
+const StopList: React.FC<StopListProps> = ({ stops, onChange }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const moveStop = (from: number, to: number) => {
+    if (from === to) return;
+    const reordered = [...stops];
+    const [moved] = reordered.splice(from, 1);
+    reordered.splice(to, 0, moved);
+    onChange(reordered);
+  };
+
+  const removeStop = (index: number) => {
+    onChange(stops.filter((_, i) => i !== index));
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      {stops.map((stop, index) => (
+        <div
+          key={`${stop.name}-${index}`}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setOverIndex(index);
+          }}
+          onDrop={() => {
+            if (dragIndex !== null) moveStop(dragIndex, index);
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={cn(
+            "flex items-center justify-between gap-2 p-2 bg-muted rounded-lg cursor-grab",
+            index === overIndex && dragIndex !== index && "ring-1 ring-primary",
+            index === dragIndex && "opacity-50"
+          )}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <Badge variant="outline" className="text-xs">
+              {index + 1}
+            </Badge>
+            <span className="text-sm truncate">{stop.name.split(',')[0]}</span>
+          </div>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => removeStop(index)}
+            className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+          >
+            ×
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default StopList;
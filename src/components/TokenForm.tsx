@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2 } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import type { MessageKey } from '@/lib/i18n';
+import { getTokenState, setAccessToken, validateAccessToken, type TokenRejection } from '@/lib/mapbox';
+
+interface TokenFormProps {
+  submitLabel: string;
+  /** Called once the token has been checked and put in use */
+  onSaved?: () => void;
+}
+
+const REJECTION_MESSAGES: Record<TokenRejection, MessageKey> = {
+  secret: 'token.error.secret',
+  expired: 'token.error.expired',
+  revoked: 'token.error.revoked',
+  malformed: 'token.error.malformed',
+  invalid: 'token.error.invalid',
+};
+
+const TokenForm: React.FC<TokenFormProps> = ({ submitLabel, onSaved }) => {
+  const [token, setToken] = useState('');
+  const [remember, setRemember] = useState(() => getTokenState().remember || !getTokenState().token);
+  // Kept as a message key so a language switch re-words the shown error
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const { t } = useTranslation();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const candidate = token.trim();
+    if (!candidate) return;
+
+    setIsChecking(true);
+    setError(null);
+    try {
+      const result = await validateAccessToken(candidate);
+      if (result.valid) {
+        setAccessToken(candidate, remember);
+        setToken('');
+        onSaved?.();
+      } else {
+        setError(REJECTION_MESSAGES[result.reason ?? 'invalid']);
+      }
+    } catch (error) {
+      console.error('Error validating token:', error);
+      setError('token.unreachable');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="token">{t('token.label')}</Label>
+        <Input
+          id="token"
+          type="password"
+          placeholder="pk.eyJ1Ijoi..."
+          value={token}
+          onChange={(e) => {
+            setToken(e.target.value);
+            setError(null);
+          }}
+          autoComplete="off"
+          required
+        />
+        {error && <p className="text-sm text-destructive">{t(error)}</p>}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="remember-token"
+          checked={remember}
+          onCheckedChange={(checked) => setRemember(checked === true)}
+        />
+        <Label htmlFor="remember-token" className="text-sm font-normal">
+          {t('token.remember')}
+        </Label>
+      </div>
+
+      <Button type="submit" className="w-full" disabled={isChecking}>
+        {isChecking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {isChecking ? t('token.checking') : submitLabel}
+      </Button>
+    </form>
+  );
+};
+
+export default TokenForm;
@@ -1,37 +1,177 @@
 import React, { useEffect, useRef, useState } from 'react';
 import mapboxgl from 'mapbox-gl';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import 'mapbox-gl/dist/mapbox-gl.css';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { Navigation, AlertTriangle, Zap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ToastAction } from '@/components/ui/toast';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Navigation,
+  AlertTriangle,
+  Zap,
+  Play,
+  Circle,
+  LocateFixed,
+  Crosshair,
+  ArrowUpDown,
+  Plus,
+  Car,
+  CarFront,
+  Footprints,
+  Bike,
+  History,
+  Settings,
+} from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useNavigation } from '@/hooks/use-navigation';
+import { useTrafficRefresh } from '@/hooks/use-traffic-refresh';
+import { useLocalStorage } from '@/hooks/use-local-storage';
+import { useTripHistory, type TripRecord } from '@/hooks/use-trip-history';
+import { useTranslation } from '@/hooks/use-translation';
 import SearchInput from './SearchInput';
 import OptimizationPanel from './OptimizationPanel';
+import NavigationPanel from './NavigationPanel';
+import TripTimePicker from './TripTimePicker';
+import RoutePreferences from './RoutePreferences';
+import StopList from './StopList';
+import ExportRouteMenu from './ExportRouteMenu';
+import SavedPlaceChips from './SavedPlaceChips';
+import SavePlaceDialog from './SavePlaceDialog';
+import OfflineAreasDialog from './OfflineAreasDialog';
+import { MapboxApiError, handleUnauthorized, type Coordinates, type DirectionsOptions, type DirectionsProfile, type RoadExclusion } from '@/lib/mapbox';
+import { directionsQuery, fetchCached, geocodeQuery, reverseGeocodeQuery } from '@/lib/queries';
+import {
+  chunkCoordinates,
+  findLessCongestedRoute,
+  joinRoutes,
+  toRouteData,
+  usedExclusions,
+  type FasterRouteOffer,
+  type Place,
+  type RouteData,
+  type TripTiming,
+} from '@/lib/routes';
+import { formatClockTime, formatDistance, formatDuration, formatTripTiming } from '@/lib/format';
+import { congestionSegments, localizeMapLabels, routeLineColor, routeLineDasharray } from '@/lib/map-style';
+import {
+  DEFAULT_PROFILE,
+  PROFILES,
+  ROAD_EXCLUSION_LABELS,
+  profileRequestOptions,
+  supportedExclusions,
+} from '@/lib/profiles';
+import type { OptimizedTrip } from '@/lib/optimization';
+import { TRIP_PATH, parseTripSearch, tripSearch, type SharedPlace, type SharedTrip } from '@/lib/trip-url';
+import { getConfig } from '@/lib/config';
+import { cn } from '@/lib/utils';
 
 interface TrafficMapProps {
   mapboxToken: string;
 }
 
-interface RouteData {
-  geometry: any;
-  duration: number;
-  distance: number;
-  congestion: string[];
-  hasTraffic: boolean;
-  trafficLevel: 'free' | 'light' | 'moderate' | 'heavy';
+// Trip settings a route request can override instead of reading from state
+interface RouteRequestOverrides {
+  from?: Coordinates | null;
+  timing?: TripTiming;
+  profile?: DirectionsProfile;
+  avoid?: RoadExclusion[];
+  stops?: Place[];
 }
 
+const PROFILE_ICONS: Record<DirectionsProfile, React.ComponentType<{ className?: string }>> = {
+  'mapbox/driving-traffic': CarFront,
+  'mapbox/driving': Car,
+  'mapbox/walking': Footprints,
+  'mapbox/cycling': Bike,
+};
+
+// Navigation and traffic refresh always plan from the present moment
+const LEAVE_NOW: TripTiming = { type: 'now' };
+
+// Minutes a faster route must save before it is offered during navigation
+const FASTER_ROUTE_MARGINS = [1, 3, 5, 10];
+
 const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
-  const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [isMapLoaded, setIsMapLoaded] = useState(false);
+  const [userLocation, setUserLocation] = useState<Coordinates | null>(null);
+  const [isLocating, setIsLocating] = useState(!!navigator.geolocation);
+  // A null origin means routes start from the device location
+  const [origin, setOrigin] = useState<Place | null>(null);
+  const [isPickingOrigin, setIsPickingOrigin] = useState(false);
+  const [isPickingSavedPlace, setIsPickingSavedPlace] = useState(false);
+  const [placeToSave, setPlaceToSave] = useState<Place | null>(null);
+  // Via points visited in the given order between origin and destination
+  const [stops, setStops] = useState<Place[]>([]);
+  const [showStopInput, setShowStopInput] = useState(false);
+  const [tripTiming, setTripTiming] = useState<TripTiming>(LEAVE_NOW);
+  const [travelProfile, setTravelProfile] = useState<DirectionsProfile>(DEFAULT_PROFILE);
   const [routes, setRoutes] = useState<RouteData[]>([]);
   const [selectedRouteIndex, setSelectedRouteIndex] = useState(0);
   const [destination, setDestination] = useState('');
+  const [destinationCoords, setDestinationCoords] = useState<Coordinates | null>(null);
+  const [isRerouting, setIsRerouting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showOptimization, setShowOptimization] = useState(false);
+  const [isNavigating, setIsNavigating] = useState(false);
+  const [voiceMuted, setVoiceMuted] = useState(false);
+  const [fasterRouteMargin, setFasterRouteMargin] = useLocalStorage('faster_route_margin', 3);
+  const [avoidPreferences, setAvoidPreferences] = useLocalStorage<RoadExclusion[]>('route_avoid', []);
   const userMarker = useRef<mapboxgl.Marker | null>(null);
+  const mapClickHandler = useRef<(coordinates: Coordinates) => void>();
+  const hasRestoredTrip = useRef(false);
+  const restoreTripHandler = useRef<(trip: SharedTrip) => void>();
+  // The trip as it was when navigation started, recorded on arrival
+  const navigationStart = useRef<Omit<TripRecord, 'id' | 'duration'> | null>(null);
+  const { addDestination, addTrip } = useTripHistory();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
   const { toast } = useToast();
+  const { t, language } = useTranslation();
+
+  const { features } = getConfig();
+  const startLocation = origin?.coordinates ?? userLocation;
+  const activeRoute = routes[selectedRouteIndex] ?? null;
+  const activeProfile = PROFILES[activeRoute?.profile ?? travelProfile];
+
+  const navigation = useNavigation(isNavigating ? activeRoute : null, {
+    muted: voiceMuted,
+    offRouteThreshold: activeProfile.offRouteThreshold,
+    onArrive: () => {
+      const started = navigationStart.current;
+      if (started) {
+        addTrip({ ...started, duration: (Date.now() - started.startedAt) / 1000 });
+        navigationStart.current = null;
+      }
+      setIsNavigating(false);
+      toast({
+        title: t('map.arrived.title'),
+        description: destination,
+      });
+    },
+    onOffRoute: (position) => reroute(position),
+  });
+
+  useTrafficRefresh({
+    // Directions only returns alternatives between two points, so trips with stops can't compare
+    enabled: isNavigating && !isRerouting && !!destinationCoords && activeProfile.hasTraffic && stops.length === 0,
+    route: activeRoute,
+    position: navigation.position,
+    remainingDuration: navigation.progress?.durationRemaining ?? null,
+    margin: fasterRouteMargin * 60,
+    fetchAlternatives: (origin) => fetchRoutes([origin, destinationCoords!], {
+      timing: LEAVE_NOW,
+      profile: activeRoute?.profile,
+      // Each tick needs current traffic, not an answer cached on the last one
+      fresh: true,
+    }),
+    onFasterRoute: (offer) => offerFasterRoute(offer),
+  });
 
   // Initialize map
   useEffect(() => {
@@ -39,16 +179,22 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
 
     mapboxgl.accessToken = mapboxToken;
     
+    const { map: mapConfig, features } = getConfig();
     map.current = new mapboxgl.Map({
       container: mapContainer.current,
-      style: 'mapbox://styles/mapbox/navigation-night-v1',
-      center: [-74.006, 40.7128], // Default to NYC
-      zoom: 12,
-      pitch: 45,
+      style: mapConfig.style,
+      center: mapConfig.center,
+      zoom: mapConfig.zoom,
+      pitch: mapConfig.pitch,
     });
 
     // Add traffic layer
     map.current.on('load', () => {
+      if (!features.liveTraffic) {
+        setIsMapLoaded(true);
+        return;
+      }
+
       // Check if traffic source already exists
       if (!map.current?.getSource('mapbox-traffic')) {
         map.current?.addSource('mapbox-traffic', {
@@ -92,17 +238,29 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
           }
         });
       }
+
+      setIsMapLoaded(true);
     });
 
     // Add navigation controls
     map.current.addControl(new mapboxgl.NavigationControl(), 'top-right');
 
+    // Tiles and styles are refused with 401 once the token stops working
+    map.current.on('error', (e) => {
+      if ((e.error as Error & { status?: number })?.status === 401) handleUnauthorized(mapboxToken);
+    });
+
+    map.current.on('click', (e) => {
+      mapClickHandler.current?.([e.lngLat.lng, e.lngLat.lat]);
+    });
+
     // Get user location
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          const coords: [number, number] = [position.coords.longitude, position.coords.latitude];
+          const coords: Coordinates = [position.coords.longitude, position.coords.latitude];
           setUserLocation(coords);
+          setIsLocating(false);
           map.current?.setCenter(coords);
           
           // Add user location marker with ref for cleanup
@@ -114,9 +272,10 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
             .addTo(map.current!);
         },
         () => {
+          setIsLocating(false);
           toast({
-            title: "Location Access Denied",
-            description: "Please enable location access for better navigation.",
+            title: t('map.locationDenied.title'),
+            description: t('map.locationDenied.description'),
             variant: "destructive"
           });
         }
@@ -126,11 +285,238 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
     return () => {
       map.current?.remove();
     };
-  }, [mapboxToken, toast]);
+  }, [mapboxToken, toast, t]);
+
+  // Live traffic only matters when the chosen profile is affected by it
+  useEffect(() => {
+    if (!map.current?.getLayer('traffic')) return;
+    map.current.setLayoutProperty(
+      'traffic',
+      'visibility',
+      PROFILES[travelProfile].hasTraffic ? 'visible' : 'none'
+    );
+  }, [travelProfile]);
+
+  // Place and street names follow the interface language where the map has them
+  useEffect(() => {
+    if (!isMapLoaded || !map.current) return;
+    localizeMapLabels(map.current, language);
+  }, [isMapLoaded, language]);
+
+  // Follow the user along the route while navigating
+  useEffect(() => {
+    const { position, progress, heading } = navigation;
+    if (!isNavigating || !position || !map.current) return;
+
+    const snappedPosition = progress?.snapped.point ?? position;
+    if (!userMarker.current) {
+      userMarker.current = new mapboxgl.Marker({
+        color: 'hsl(var(--primary))',
+        className: 'user-location-marker'
+      }).addTo(map.current);
+    }
+    userMarker.current.setLngLat(snappedPosition);
+    setUserLocation(position);
+
+    map.current.easeTo({
+      center: snappedPosition,
+      zoom: 16,
+      pitch: 60,
+      bearing: heading ?? map.current.getBearing(),
+      duration: 1000,
+    });
+  }, [isNavigating, navigation]);
+
+  useEffect(() => {
+    if (!navigation.error) return;
+    toast({
+      title: t('map.locationUnavailable.title'),
+      description: t('map.locationUnavailable.navigation'),
+      variant: "destructive"
+    });
+  }, [navigation.error, toast, t]);
+
+  // Restore a trip shared by link once the map can draw it. Links without a
+  // start wait for the device location, or for it to be refused.
+  useEffect(() => {
+    if (hasRestoredTrip.current || !isMapLoaded) return;
+    const shared = parseTripSearch(searchParams);
+    if (shared.to && !shared.from && isLocating) return;
+
+    hasRestoredTrip.current = true;
+    if (shared.to) restoreTripHandler.current?.(shared);
+  }, [isMapLoaded, isLocating, searchParams]);
+
+  // Keep the address bar in step with the trip so it can be shared or bookmarked
+  useEffect(() => {
+    if (!hasRestoredTrip.current || !destinationCoords) return;
+    const search = tripSearch({
+      from: origin,
+      to: { name: destination, coordinates: destinationCoords },
+      via: stops,
+      profile: travelProfile,
+      timing: tripTiming,
+      avoid: avoidPreferences,
+    });
+    if (location.pathname !== TRIP_PATH || location.search !== `?${search}`) {
+      navigate({ pathname: TRIP_PATH, search }, { replace: true });
+    }
+  }, [
+    origin,
+    destination,
+    destinationCoords,
+    stops,
+    travelProfile,
+    tripTiming,
+    avoidPreferences,
+    location.pathname,
+    location.search,
+    navigate,
+  ]);
+
+  const startNavigation = () => {
+    if (!activeRoute || !destinationCoords) return;
+    navigationStart.current = {
+      from: origin,
+      to: { name: destination, coordinates: destinationCoords },
+      via: stops,
+      profile: activeRoute.profile,
+      avoid: avoidPreferences,
+      routeIndex: selectedRouteIndex,
+      distance: activeRoute.distance,
+      startedAt: Date.now(),
+    };
+    setShowOptimization(false);
+    setIsNavigating(true);
+  };
+
+  const offerFasterRoute = (offer: FasterRouteOffer) => {
+    const switchRoute = () => {
+      setRoutes(offer.routes);
+      setSelectedRouteIndex(offer.fasterIndex);
+      displayRoutes(offer.routes, offer.fasterIndex);
+    };
+
+    toast({
+      title: t('map.fasterRoute.title'),
+      description: t('map.fasterRoute.description', { duration: formatDuration(offer.timeSaved) }),
+      action: (
+        <ToastAction altText={t('map.fasterRoute.actionLabel')} onClick={switchRoute}>
+          {t('map.fasterRoute.action')}
+        </ToastAction>
+      ),
+    });
+  };
+
+  const updateFasterRouteMargin = (value: string) => {
+    setFasterRouteMargin(Number(value));
+  };
+
+  const stopNavigation = () => {
+    setIsNavigating(false);
+    map.current?.easeTo({ pitch: getConfig().map.pitch, bearing: 0 });
+  };
+
+  // Directions request shared by the route options and rerouting
+  const fetchRoutes = async (
+    coordinates: Coordinates[],
+    {
+      alternatives = true,
+      timing = tripTiming,
+      profile = travelProfile,
+      avoid = avoidPreferences,
+      fresh = false,
+    }: Omit<RouteRequestOverrides, 'from'> & { alternatives?: boolean; fresh?: boolean } = {}
+  ) => {
+    const requestOptions = profileRequestOptions(profile, timing);
+    const request: DirectionsOptions = {
+      ...requestOptions,
+      exclude: supportedExclusions(requestOptions.profile, avoid),
+      annotations: PROFILES[requestOptions.profile].hasTraffic ? ['congestion', 'distance'] : ['distance'],
+      steps: true,
+    };
+
+    // Long stop lists, such as large optimized trips, take one request per
+    // chunk joined into a single route, with no alternatives
+    const chunks = chunkCoordinates(coordinates);
+    if (chunks.length > 1) {
+      const responses = await Promise.all(
+        chunks.map((chunk) => fetchCached(directionsQuery(chunk, { ...request, alternatives: false })))
+      );
+      return [toRouteData(joinRoutes(responses.map((directions) => directions.routes[0])), requestOptions.profile)];
+    }
+
+    const query = directionsQuery(coordinates, { ...request, alternatives });
+    const routeData = await fetchCached(fresh ? { ...query, staleTime: 0 } : query);
+    return routeData.routes.map((route) => toRouteData(route, requestOptions.profile));
+  };
+
+  // Replace the active route with a new one from the current position
+  const reroute = async (position: Coordinates) => {
+    if (!destinationCoords || isRerouting) return;
+
+    setIsRerouting(true);
+    toast({
+      title: t('map.offRoute.title'),
+      description: t('map.offRoute.description'),
+    });
+
+    // Stops whose leg ends before the point reached on the old route are done
+    const traveled = navigation.progress?.distanceTraveled ?? 0;
+    let legEnd = 0;
+    const remainingStops = stops.filter((_, index) => {
+      legEnd += activeRoute?.legs[index]?.distance ?? 0;
+      return legEnd > traveled;
+    });
+
+    try {
+      const newRoutes = await fetchRoutes(
+        [position, ...remainingStops.map((stop) => stop.coordinates), destinationCoords],
+        {
+          alternatives: false,
+          timing: LEAVE_NOW,
+          profile: activeRoute?.profile,
+        }
+      );
+      if (newRoutes.length > 0) {
+        setStops(remainingStops);
+        setRoutes(newRoutes);
+        setSelectedRouteIndex(0);
+        displayRoutes(newRoutes, 0);
+      }
+    } catch (error) {
+      toast({
+        title: t('map.rerouteFailed.title'),
+        description: t('map.rerouteFailed.description'),
+        variant: "destructive"
+      });
+    } finally {
+      setIsRerouting(false);
+    }
+  };
 
   // Get routes with traffic data
-  const getRoutes = async (destination: string, coordinates?: [number, number]) => {
-    if (!userLocation || !destination) return;
+  const getRoutes = async (
+    destination: string,
+    coordinates?: Coordinates,
+    overrides: RouteRequestOverrides = {}
+  ) => {
+    const {
+      from = startLocation,
+      timing = tripTiming,
+      profile = travelProfile,
+      avoid = avoidPreferences,
+      stops: via = stops,
+    } = overrides;
+    if (!destination) return;
+    if (!from) {
+      toast({
+        title: t('map.chooseStart.title'),
+        description: t('map.chooseStart.description'),
+        variant: "destructive"
+      });
+      return;
+    }
 
     setIsLoading(true);
     setDestination(destination);
@@ -140,15 +526,12 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
       
       // If coordinates not provided, geocode the destination
       if (!destCoords) {
-        const geocodeResponse = await fetch(
-          `https://api.mapbox.com/geocoding/v5/mapbox.places/${encodeURIComponent(destination)}.json?access_token=${mapboxToken}&limit=1`
-        );
-        const geocodeData = await geocodeResponse.json();
+        const geocodeData = await fetchCached(geocodeQuery(destination));
         
         if (!geocodeData.features.length) {
           toast({
-            title: "Destination Not Found",
-            description: "Please try a different location.",
+            title: t('map.destinationNotFound.title'),
+            description: t('common.tryDifferentLocation'),
             variant: "destructive"
           });
           setIsLoading(false);
@@ -156,54 +539,40 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
         }
         destCoords = geocodeData.features[0].center;
       }
+      setDestinationCoords(destCoords);
       
       // Get multiple route alternatives with traffic
-      const routeResponse = await fetch(
-        `https://api.mapbox.com/directions/v5/mapbox/driving-traffic/${userLocation[0]},${userLocation[1]};${destCoords[0]},${destCoords[1]}?access_token=${mapboxToken}&alternatives=true&annotations=congestion&overview=full&geometries=geojson`
+      const processedRoutes = await fetchRoutes(
+        [from, ...via.map((stop) => stop.coordinates), destCoords],
+        { alternatives: via.length === 0, timing, profile, avoid }
       );
-      const routeData = await routeResponse.json();
-
-      if (routeData.routes && routeData.routes.length > 0) {
-        const processedRoutes: RouteData[] = routeData.routes.map((route: any) => {
-          const congestionLevels = route.legs[0]?.annotation?.congestion || [];
-          const hasTraffic = congestionLevels.some((level: string) => 
-            ['moderate', 'heavy', 'severe'].includes(level)
-          );
-          
-          // Determine overall traffic level
-          let trafficLevel: 'free' | 'light' | 'moderate' | 'heavy' = 'free';
-          if (congestionLevels.includes('severe')) trafficLevel = 'heavy';
-          else if (congestionLevels.includes('heavy')) trafficLevel = 'moderate';
-          else if (congestionLevels.includes('moderate')) trafficLevel = 'light';
-
-          return {
-            geometry: route.geometry,
-            duration: route.duration,
-            distance: route.distance,
-            congestion: congestionLevels,
-            hasTraffic,
-            trafficLevel
-          };
-        });
 
+      if (processedRoutes.length > 0) {
         setRoutes(processedRoutes);
-        displayRoutes(processedRoutes);
+        setSelectedRouteIndex(0);
+        displayRoutes(processedRoutes, 0);
+        addDestination({ name: destination, coordinates: destCoords });
         
         // Check for traffic and suggest alternatives
-        if (processedRoutes[0].hasTraffic && processedRoutes.length > 1) {
-          const betterRoute = processedRoutes.find(route => !route.hasTraffic || route.trafficLevel === 'free');
-          if (betterRoute) {
+        if (processedRoutes[0].hasTraffic) {
+          const betterRouteIndex = findLessCongestedRoute(processedRoutes);
+          if (betterRouteIndex >= 0) {
             toast({
-              title: "Traffic Detected!",
-              description: "Alternative route available to avoid congestion.",
+              title: t('map.trafficDetected.title'),
+              description: t('map.trafficDetected.description', { number: betterRouteIndex + 1 }),
             });
           }
         }
       }
     } catch (error) {
+      const noRouteWithExclusions = error instanceof MapboxApiError
+        && error.code === 'NoRoute'
+        && supportedExclusions(profile, avoid).length > 0;
       toast({
-        title: "Route Error",
-        description: "Unable to get route. Please try again.",
+        title: t('map.routeError.title'),
+        description: noRouteWithExclusions
+          ? t('map.routeError.noRouteWithExclusions')
+          : t('map.routeError.description'),
         variant: "destructive"
       });
     } finally {
@@ -211,7 +580,219 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
     }
   };
 
-  const displayRoutes = (routeData: RouteData[]) => {
+  const restoreTrip = async (shared: SharedTrip) => {
+    // Links may carry plain addresses instead of coordinates
+    const locate = async (place: SharedPlace): Promise<Place | null> => {
+      if (place.coordinates) return { name: place.name, coordinates: place.coordinates };
+      const geocodeData = await fetchCached(geocodeQuery(place.name));
+      const feature = geocodeData.features[0];
+      return feature ? { name: feature.place_name, coordinates: feature.center } : null;
+    };
+
+    try {
+      const [from, ...via] = await Promise.all([
+        shared.from ? locate(shared.from) : Promise.resolve(null),
+        ...shared.via.map(locate),
+      ]);
+      const located = via.filter((stop): stop is Place => !!stop);
+      if ((shared.from && !from) || located.length < via.length) {
+        toast({
+          title: t('map.placesNotFound.title'),
+          description: t('map.placesNotFound.description'),
+          variant: "destructive"
+        });
+      }
+
+      const profile = shared.profile ?? travelProfile;
+      const avoid = shared.avoid ?? avoidPreferences;
+      setOrigin(from);
+      setStops(located);
+      setTravelProfile(profile);
+      setTripTiming(shared.timing);
+      setAvoidPreferences(avoid);
+      setDestination(shared.to.name);
+      getRoutes(shared.to.name, shared.to.coordinates, {
+        from: from?.coordinates,
+        stops: located,
+        timing: shared.timing,
+        profile,
+        avoid,
+      });
+    } catch (error) {
+      toast({
+        title: t('map.sharedTripError.title'),
+        description: t('map.sharedTripError.description'),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateOrigin = (place: Place | null) => {
+    setOrigin(place);
+    const from = place?.coordinates ?? userLocation;
+    if (destinationCoords && from) {
+      getRoutes(destination, destinationCoords, { from });
+    }
+  };
+
+  const selectOrigin = async (name: string, coordinates?: Coordinates) => {
+    try {
+      if (coordinates) {
+        updateOrigin({ name, coordinates });
+        return;
+      }
+
+      const geocodeData = await fetchCached(geocodeQuery(name));
+      if (!geocodeData.features.length) {
+        toast({
+          title: t('map.startNotFound.title'),
+          description: t('common.tryDifferentLocation'),
+          variant: "destructive"
+        });
+        return;
+      }
+      const feature = geocodeData.features[0];
+      updateOrigin({ name: feature.place_name, coordinates: feature.center });
+    } catch (error) {
+      toast({
+        title: t('map.startError.title'),
+        description: t('map.startError.description'),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const startFromCurrentLocation = () => {
+    if (!userLocation) {
+      toast({
+        title: t('map.locationUnavailable.title'),
+        description: t('map.locationUnavailable.start'),
+        variant: "destructive"
+      });
+      return;
+    }
+    setIsPickingOrigin(false);
+    updateOrigin(null);
+  };
+
+  const placeAt = async (coordinates: Coordinates): Promise<Place> => {
+    const fallbackName = `${coordinates[1].toFixed(5)}, ${coordinates[0].toFixed(5)}`;
+    try {
+      const geocodeData = await fetchCached(reverseGeocodeQuery(coordinates));
+      return { name: geocodeData.features[0]?.place_name ?? fallbackName, coordinates };
+    } catch (error) {
+      return { name: fallbackName, coordinates };
+    }
+  };
+
+  const pickOriginOnMap = async (coordinates: Coordinates) => {
+    setIsPickingOrigin(false);
+    updateOrigin(await placeAt(coordinates));
+  };
+
+  const pickSavedPlaceOnMap = async (coordinates: Coordinates) => {
+    setIsPickingSavedPlace(false);
+    setPlaceToSave(await placeAt(coordinates));
+  };
+
+  mapClickHandler.current = (coordinates) => {
+    if (isPickingOrigin) pickOriginOnMap(coordinates);
+    else if (isPickingSavedPlace) pickSavedPlaceOnMap(coordinates);
+  };
+
+  restoreTripHandler.current = restoreTrip;
+
+  const swapOriginAndDestination = () => {
+    if (!destinationCoords) return;
+
+    const from = origin ?? (userLocation && { name: t('common.currentLocation'), coordinates: userLocation });
+    const reversedStops = [...stops].reverse();
+    setOrigin({ name: destination, coordinates: destinationCoords });
+    setStops(reversedStops);
+    if (from) {
+      getRoutes(from.name, from.coordinates, { from: destinationCoords, stops: reversedStops });
+    }
+  };
+
+  const changeStops = (newStops: Place[]) => {
+    setStops(newStops);
+    if (destinationCoords) {
+      getRoutes(destination, destinationCoords, { stops: newStops });
+    }
+  };
+
+  const addStop = async (name: string, coordinates?: Coordinates) => {
+    try {
+      let place: Place | null = coordinates ? { name, coordinates } : null;
+      if (!place) {
+        const geocodeData = await fetchCached(geocodeQuery(name));
+        const feature = geocodeData.features[0];
+        place = feature ? { name: feature.place_name, coordinates: feature.center } : null;
+      }
+
+      if (!place) {
+        toast({
+          title: t('map.stopNotFound.title'),
+          description: t('common.tryDifferentLocation'),
+          variant: "destructive"
+        });
+        return;
+      }
+      changeStops([...stops, place]);
+    } catch (error) {
+      toast({
+        title: t('map.addStopError.title'),
+        description: t('common.tryAgain'),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const changeTripTiming = (timing: TripTiming) => {
+    setTripTiming(timing);
+    if (destinationCoords) {
+      getRoutes(destination, destinationCoords, { timing });
+    }
+  };
+
+  const changeTravelProfile = (profile: DirectionsProfile) => {
+    setTravelProfile(profile);
+    if (destinationCoords) {
+      getRoutes(destination, destinationCoords, { profile });
+    }
+  };
+
+  const changeAvoidPreferences = (avoid: RoadExclusion[]) => {
+    setAvoidPreferences(avoid);
+    if (destinationCoords) {
+      getRoutes(destination, destinationCoords, { avoid });
+    }
+  };
+
+  // Expected arrival for the planned departure, or when to leave to arrive in time
+  const getRouteTimeLabel = (route: RouteData) => {
+    if (tripTiming.type === 'arrive_by') {
+      return t('route.leave', { time: formatClockTime(new Date(tripTiming.time.getTime() - route.duration * 1000)) });
+    }
+    const departure = tripTiming.type === 'depart_at' ? tripTiming.time : new Date();
+    return t('route.arrive', { time: formatClockTime(new Date(departure.getTime() + route.duration * 1000)) });
+  };
+
+  // Arrival time at the end of each leg, counted from the trip's departure
+  const getLegArrivals = (route: RouteData) => {
+    const departure = tripTiming.type === 'now'
+      ? new Date()
+      : tripTiming.type === 'depart_at'
+        ? tripTiming.time
+        : new Date(tripTiming.time.getTime() - route.duration * 1000);
+    let elapsed = 0;
+    return route.legs.map((leg) => {
+      elapsed += leg.duration;
+      return new Date(departure.getTime() + elapsed * 1000);
+    });
+  };
+
+  const displayRoutes = (routeData: RouteData[], selectedIndex = selectedRouteIndex) => {
     if (!map.current) return;
 
     console.log('Displaying routes:', routeData); // Debug log
@@ -236,6 +817,16 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
       new mapboxgl.Marker({ color: 'hsl(var(--destructive))' })
         .setLngLat(lastCoord)
         .addTo(map.current!);
+
+      // Every leg but the last ends at a stop
+      routeData[0].steps
+        .filter((step) => step.maneuver.type === 'arrive')
+        .slice(0, -1)
+        .forEach((step) => {
+          new mapboxgl.Marker({ color: 'hsl(var(--traffic-light))' })
+            .setLngLat(step.maneuver.location)
+            .addTo(map.current!);
+        });
     }
 
     // Add route data
@@ -243,47 +834,50 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
       type: 'geojson',
       data: {
         type: 'FeatureCollection',
-        features: routeData.map((route, index) => ({
-          type: 'Feature',
-          properties: { 
-            routeIndex: index,
-            trafficLevel: route.trafficLevel
-          },
-          geometry: route.geometry
-        }))
+        features: routeData.flatMap((route, index) => congestionSegments(route, index))
       }
     });
 
+    const profile = routeData[0]?.profile ?? travelProfile;
+    const dasharray = routeLineDasharray(profile);
+
     map.current.addLayer({
       id: 'routes',
       type: 'line',
       source: 'routes',
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round',
+        // Draw the selected route above the alternatives
+        'line-sort-key': [
+          'case',
+          ['==', ['get', 'routeIndex'], selectedIndex],
+          1,
+          0
+        ]
+      },
       paint: {
         'line-width': [
           'case',
-          ['==', ['get', 'routeIndex'], selectedRouteIndex],
+          ['==', ['get', 'routeIndex'], selectedIndex],
           6,
           4
         ],
-        'line-color': [
-          'case',
-          ['==', ['get', 'routeIndex'], selectedRouteIndex],
-          'hsl(var(--primary))',
-          'hsl(var(--muted-foreground))'
-        ],
+        'line-color': routeLineColor(profile),
         'line-opacity': [
           'case',
-          ['==', ['get', 'routeIndex'], selectedRouteIndex],
+          ['==', ['get', 'routeIndex'], selectedIndex],
           1,
           0.7
-        ]
+        ],
+        ...(dasharray && { 'line-dasharray': dasharray })
       }
     });
 
     // Fit map to route bounds
     if (routeData.length > 0) {
       const bounds = new mapboxgl.LngLatBounds();
-      routeData[0].geometry.coordinates.forEach((coord: [number, number]) => {
+      routeData[0].geometry.coordinates.forEach((coord) => {
         bounds.extend(coord);
       });
       map.current.fitBounds(bounds, { padding: 100 });
@@ -293,22 +887,10 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
   const selectRoute = (index: number) => {
     setSelectedRouteIndex(index);
     if (routes.length > 0) {
-      displayRoutes(routes);
+      displayRoutes(routes, index);
     }
   };
 
-  const formatDuration = (seconds: number) => {
-    const minutes = Math.round(seconds / 60);
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    return hours > 0 ? `${hours}h ${remainingMinutes}m` : `${minutes}m`;
-  };
-
-  const formatDistance = (meters: number) => {
-    const miles = (meters * 0.000621371).toFixed(1);
-    return `${miles} mi`;
-  };
-
   const getTrafficColor = (level: string) => {
     switch (level) {
       case 'free': return 'text-traffic-free';
@@ -320,78 +902,18 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
   };
 
   // Handle optimized route from optimization panel
-  const handleOptimizedRoute = (coordinates: [number, number][], waypoints: string[]) => {
-    if (!map.current) return;
-
-    console.log('Displaying optimized route:', coordinates, waypoints);
-
-    // Clear existing routes
-    if (map.current.getSource('routes')) {
-      map.current.removeLayer('routes');
-      map.current.removeSource('routes');
-    }
-
-    // Create optimized route data
-    const optimizedRoute: RouteData = {
-      geometry: {
-        type: 'LineString',
-        coordinates: coordinates
-      },
-      duration: 0, // Will be calculated by optimization API
-      distance: 0, // Will be calculated by optimization API
-      congestion: [],
-      hasTraffic: false,
-      trafficLevel: 'free'
-    };
-
-    // Add route data
-    map.current.addSource('routes', {
-      type: 'geojson',
-      data: {
-        type: 'FeatureCollection',
-        features: [{
-          type: 'Feature',
-          properties: { 
-            routeIndex: 0,
-            trafficLevel: 'free',
-            isOptimized: true
-          },
-          geometry: optimizedRoute.geometry
-        }]
-      }
-    });
+  const handleOptimizedRoute = (trip: OptimizedTrip) => {
+    // The last visit becomes the destination and the rest ordered stops, so
+    // the trip can be edited and navigated like any other route
+    const visits = trip.stops.slice(1);
+    const end = visits[visits.length - 1];
 
-    map.current.addLayer({
-      id: 'routes',
-      type: 'line',
-      source: 'routes',
-      paint: {
-        'line-width': 6,
-        'line-color': 'hsl(var(--primary))',
-        'line-opacity': 1
-      }
-    });
-
-    // Add waypoint markers
-    coordinates.forEach((coord, index) => {
-      if (index === 0) return; // Skip user location
-      new mapboxgl.Marker({ 
-        color: index === coordinates.length - 1 ? 'hsl(var(--destructive))' : 'hsl(var(--traffic-light))'
-      })
-        .setLngLat(coord)
-        .addTo(map.current!);
-    });
-
-    // Fit map to route bounds
-    const bounds = new mapboxgl.LngLatBounds();
-    coordinates.forEach((coord: [number, number]) => {
-      bounds.extend(coord);
-    });
-    map.current.fitBounds(bounds, { padding: 100 });
-
-    // Clear normal routes and close optimization panel
-    setRoutes([]);
-    setShowOptimization(false);
+    setStops(visits.slice(0, -1));
+    setDestination(end.name);
+    setDestinationCoords(end.coordinates);
+    setRoutes([trip.route]);
+    setSelectedRouteIndex(0);
+    displayRoutes([trip.route], 0);
   };
 
   return (
@@ -399,46 +921,209 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
       {/* Map container */}
       <div ref={mapContainer} className="absolute inset-0" />
       
-      {/* Route input panel */}
-      <Card className="absolute top-4 left-4 right-4 bg-glass-bg backdrop-blur-md border-glass-border p-4">
-        <div className="flex gap-2">
-          <div className="flex-1">
-            <SearchInput 
-              mapboxToken={mapboxToken}
-              onDestinationSelect={getRoutes}
-              isLoading={isLoading}
+      {isNavigating && (
+        <NavigationPanel
+          progress={navigation.progress}
+          isRerouting={isRerouting}
+          muted={voiceMuted}
+          onToggleMute={() => setVoiceMuted(!voiceMuted)}
+          onExit={stopNavigation}
+        />
+      )}
+
+      <div className={cn("absolute top-4 left-4 right-4 space-y-2", isNavigating && "hidden")}>
+        {/* Route input panel */}
+        <Card className="bg-glass-bg backdrop-blur-md border-glass-border p-4">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 space-y-2">
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <SearchInput
+                    onDestinationSelect={selectOrigin}
+                    isLoading={isLoading}
+                    placeholder={t('map.startPlaceholder')}
+                    value={origin?.name ?? (userLocation ? t('common.currentLocation') : '')}
+                    icon={<Circle className="h-4 w-4 text-primary" />}
+                    showSubmit={false}
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={startFromCurrentLocation}
+                  className="bg-background/50 hover:bg-accent"
+                  title={t('map.useCurrentLocation')}
+                >
+                  <LocateFixed className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={isPickingOrigin ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => {
+                    setIsPickingSavedPlace(false);
+                    setIsPickingOrigin(!isPickingOrigin);
+                  }}
+                  className={cn(!isPickingOrigin && "bg-background/50 hover:bg-accent")}
+                  title={t('map.pickStart')}
+                >
+                  <Crosshair className="h-4 w-4" />
+                </Button>
+              </div>
+              {stops.length > 0 && <StopList stops={stops} onChange={changeStops} />}
+              {showStopInput && (
+                <SearchInput
+                  key={stops.length}
+                  onDestinationSelect={addStop}
+                  isLoading={isLoading}
+                  placeholder={t('map.stopPlaceholder')}
+                  icon={<Plus className="h-4 w-4 text-primary" />}
+                />
+              )}
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <SearchInput 
+                    onDestinationSelect={getRoutes}
+                    isLoading={isLoading}
+                    value={destination}
+                  />
+                </div>
+                <Button
+                  variant={showStopInput ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setShowStopInput(!showStopInput)}
+                  className={cn(!showStopInput && "bg-background/50 hover:bg-accent")}
+                  title={t('map.addStops')}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <TripTimePicker value={tripTiming} onChange={changeTripTiming} />
+                <RoutePreferences
+                  avoid={avoidPreferences}
+                  profile={travelProfile}
+                  onChange={changeAvoidPreferences}
+                />
+                {features.optimization && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowOptimization(!showOptimization)}
+                    className="bg-background/50 hover:bg-accent"
+                  >
+                    <Zap className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={swapOriginAndDestination}
+              disabled={!destinationCoords}
+              title={t('map.swap')}
+            >
+              <ArrowUpDown className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="mt-2 flex items-center justify-between">
+            <ToggleGroup
+              type="single"
+              value={travelProfile}
+              onValueChange={(value) => value && changeTravelProfile(value as DirectionsProfile)}
+              className="justify-start"
+            >
+              {(Object.keys(PROFILES) as DirectionsProfile[]).map((profile) => {
+                const ProfileIcon = PROFILE_ICONS[profile];
+                return (
+                  <ToggleGroupItem
+                    key={profile}
+                    value={profile}
+                    size="sm"
+                    title={t(PROFILES[profile].label)}
+                    aria-label={t(PROFILES[profile].label)}
+                  >
+                    <ProfileIcon className="h-4 w-4" />
+                  </ToggleGroupItem>
+                );
+              })}
+            </ToggleGroup>
+            <div className="flex items-center">
+              {features.offlineMaps && <OfflineAreasDialog map={isMapLoaded ? map.current : null} />}
+              {features.tripHistory && (
+                <Button variant="ghost" size="sm" asChild title={t('common.tripHistory')}>
+                  <Link to="/history">
+                    <History className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
+              <Button variant="ghost" size="sm" asChild title={t('common.settings')}>
+                <Link to="/settings">
+                  <Settings className="h-4 w-4" />
+                </Link>
+              </Button>
+            </div>
+          </div>
+          {tripTiming.type !== 'now' && (
+            <p className="mt-2 text-xs text-muted-foreground">{formatTripTiming(tripTiming)}</p>
+          )}
+          <div className="mt-2">
+            <SavedPlaceChips
+              onSelect={(place) => getRoutes(place.name, place.coordinates)}
+              onAdd={() => {
+                setIsPickingOrigin(false);
+                setIsPickingSavedPlace(!isPickingSavedPlace);
+              }}
+              isAdding={isPickingSavedPlace}
             />
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setShowOptimization(!showOptimization)}
-            className="bg-background/50 hover:bg-accent"
-          >
-            <Zap className="h-4 w-4" />
-          </Button>
-        </div>
-      </Card>
-
-      {/* Optimization panel */}
-      {showOptimization && (
-        <Card className="absolute top-20 left-4 right-4 bg-glass-bg backdrop-blur-md border-glass-border">
-          <OptimizationPanel
-            mapboxToken={mapboxToken}
-            userLocation={userLocation}
-            onOptimizedRoute={handleOptimizedRoute}
-          />
+          {isPickingOrigin && (
+            <p className="mt-2 text-xs text-muted-foreground">{t('map.pickStartHint')}</p>
+          )}
+          {isPickingSavedPlace && (
+            <p className="mt-2 text-xs text-muted-foreground">{t('map.pickPlaceHint')}</p>
+          )}
         </Card>
-      )}
+        <SavePlaceDialog place={placeToSave} onClose={() => setPlaceToSave(null)} />
+
+        {/* Optimization panel */}
+        {showOptimization && !isNavigating && (
+          <Card className="bg-glass-bg backdrop-blur-md border-glass-border">
+            <OptimizationPanel
+              origin={startLocation}
+              profile={travelProfile}
+              avoid={avoidPreferences}
+              timing={tripTiming}
+              onOptimizedRoute={handleOptimizedRoute}
+            />
+          </Card>
+        )}
+      </div>
 
       {/* Route options */}
-      {routes.length > 0 && (
+      {routes.length > 0 && !isNavigating && (
         <Card className="absolute bottom-4 left-4 right-4 bg-glass-bg backdrop-blur-md border-glass-border p-4">
           <div className="space-y-3">
-            <h3 className="font-semibold flex items-center gap-2">
-              <Navigation className="h-4 w-4" />
-              Route Options
-            </h3>
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold flex items-center gap-2">
+                <Navigation className="h-4 w-4" />
+                {t('map.routeOptions')}
+              </h3>
+              {activeRoute && startLocation && destinationCoords && (
+                <ExportRouteMenu
+                  data={{
+                    name: t('map.exportName', {
+                      from: (origin?.name ?? t('common.currentLocation')).split(',')[0],
+                      to: destination.split(',')[0],
+                    }),
+                    route: activeRoute,
+                    waypoints: [
+                      { name: origin?.name ?? t('common.currentLocation'), coordinates: startLocation },
+                      ...stops,
+                      { name: destination, coordinates: destinationCoords },
+                    ],
+                  }}
+                />
+              )}
+            </div>
             
             {routes.map((route, index) => (
               <Button
@@ -448,17 +1133,61 @@ const TrafficMap: React.FC<TrafficMapProps> = ({ mapboxToken }) => {
                 onClick={() => selectRoute(index)}
               >
                 <div className="flex items-center gap-2">
-                  <span className="font-medium">Route {index + 1}</span>
+                  <span className="font-medium">{t('route.number', { number: index + 1 })}</span>
                   {route.hasTraffic && (
                     <AlertTriangle className={`h-4 w-4 ${getTrafficColor(route.trafficLevel)}`} />
                   )}
+                  {usedExclusions(route, avoidPreferences).map((exclusion) => (
+                    <Badge key={exclusion} variant="outline" className="text-xs">
+                      {t(ROAD_EXCLUSION_LABELS[exclusion])}
+                    </Badge>
+                  ))}
                 </div>
                 <div className="text-right text-sm">
                   <div>{formatDuration(route.duration)}</div>
                   <div className="text-muted-foreground">{formatDistance(route.distance)}</div>
+                  <div className="text-xs text-muted-foreground">{getRouteTimeLabel(route)}</div>
                 </div>
               </Button>
             ))}
+
+            {activeRoute && activeRoute.legs.length > 1 && (
+              <div className="space-y-1 text-sm">
+                {activeRoute.legs.map((leg, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2">
+                    <span className="truncate">
+                      {index + 1}. {(stops[index]?.name ?? destination).split(',')[0]}
+                    </span>
+                    <span className="shrink-0 text-muted-foreground">
+                      {formatDuration(leg.duration)} · {formatDistance(leg.distance)} · {formatClockTime(getLegArrivals(activeRoute)[index])}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {activeProfile.hasTraffic && (
+              <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+                <span>{t('map.fasterRouteMargin')}</span>
+                <Select value={String(fasterRouteMargin)} onValueChange={updateFasterRouteMargin}>
+                  <SelectTrigger className="w-24 h-8 bg-background/50">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FASTER_ROUTE_MARGINS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {t('common.minutes', { minutes })}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <Button className="w-full" onClick={startNavigation}>
+              <Play className="h-4 w-4 mr-2" />
+              {t('map.startNavigation')}
+            </Button>
           </div>
         </Card>
       )}
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { format, type Locale } from 'date-fns';
+import { de, enUS, es } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Clock } from 'lucide-react';
+import { useTranslation } from '@/hooks/use-translation';
+import type { Language } from '@/lib/i18n';
+import type { TripTiming } from '@/lib/routes';
+import { formatTripTiming } from '@/lib/format';
+import { cn } from '@/lib/utils';
+
+interface TripTimePickerProps {
+  value: TripTiming;
+  onChange: (timing: TripTiming) => void;
+}
+
+// Month and weekday names in the calendar
+const CALENDAR_LOCALES: Record<Language, Locale> = { en: enUS, es, de };
+
+const TripTimePicker: React.FC<TripTimePickerProps> = ({ value, onChange }) => {
+  const { t, language } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [type, setType] = useState<TripTiming['type']>(value.type);
+  const [day, setDay] = useState<Date>(value.type === 'now' ? new Date() : value.time);
+  const [time, setTime] = useState(format(value.type === 'now' ? new Date() : value.time, 'HH:mm'));
+
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+
+  // Start each edit from the timing currently applied
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      const current = value.type === 'now' ? new Date() : value.time;
+      setType(value.type);
+      setDay(current);
+      setTime(format(current, 'HH:mm'));
+    }
+    setOpen(nextOpen);
+  };
+
+  const applyTiming = () => {
+    if (type === 'now') {
+      onChange({ type: 'now' });
+    } else {
+      const [hours, minutes] = time.split(':').map(Number);
+      const selected = new Date(day);
+      selected.setHours(hours || 0, minutes || 0, 0, 0);
+      onChange({ type, time: selected });
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant={value.type === 'now' ? "outline" : "default"}
+          size="sm"
+          className={cn(value.type === 'now' && "bg-background/50 hover:bg-accent")}
+          title={formatTripTiming(value)}
+        >
+          <Clock className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-3 space-y-3" align="end">
+        <ToggleGroup
+          type="single"
+          value={type}
+          onValueChange={(next) => next && setType(next as TripTiming['type'])}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="now" size="sm">{t('timing.now')}</ToggleGroupItem>
+          <ToggleGroupItem value="depart_at" size="sm">{t('timing.leaveAt')}</ToggleGroupItem>
+          <ToggleGroupItem value="arrive_by" size="sm">{t('timing.arriveBy')}</ToggleGroupItem>
+        </ToggleGroup>
+
+        {type !== 'now' && (
+          <>
+            <Calendar
+              mode="single"
+              selected={day}
+              onSelect={(selected) => selected && setDay(selected)}
+              disabled={{ before: today }}
+              locale={CALENDAR_LOCALES[language]}
+              className="rounded-md border border-border"
+            />
+            <div className="flex items-center gap-2">
+              <Label htmlFor="trip-time" className="text-sm">{t('timing.time')}</Label>
+              <Input
+                id="trip-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="bg-background/50"
+              />
+            </div>
+          </>
+        )}
+
+        <Button size="sm" className="w-full" onClick={applyTiming}>
+          {t('timing.apply')}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TripTimePicker;
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getTokenState, subscribeToAccessToken } from '@/lib/mapbox';
+
+/** The Mapbox token in use, re-rendering when it is set, rotated, cleared or rejected */
+export function useAccessToken() {
+  return useSyncExternalStore(subscribeToAccessToken, getTokenState);
+}
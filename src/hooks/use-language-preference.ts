@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLanguagePreference, setLanguagePreference, subscribeToLanguage } from '@/lib/i18n';
+
+/** The language the user picked, or null while the browser's languages decide */
+export function useLanguagePreference() {
+  const preference = useSyncExternalStore(subscribeToLanguage, getLanguagePreference);
+  return [preference, setLanguagePreference] as const;
+}
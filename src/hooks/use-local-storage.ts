@@ -0,0 +1,27 @@
+import { useCallback, useState } from 'react';
+
+function readValue<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored === null ? fallback : (JSON.parse(stored) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+/** useState that persists its value as JSON in localStorage under `key` */
+export function useLocalStorage<T>(key: string, initialValue: T) {
+  const [value, setValue] = useState<T>(() => readValue(key, initialValue));
+
+  const updateValue = useCallback((next: T) => {
+    setValue(next);
+    try {
+      localStorage.setItem(key, JSON.stringify(next));
+    } catch {
+      // Storage can be full or unavailable in private windows; the value
+      // still holds for this page
+    }
+  }, [key]);
+
+  return [value, updateValue] as const;
+}
@@ -0,0 +1,129 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { getLocale } from '@/lib/format';
+import type { Coordinates } from '@/lib/mapbox';
+import {
+  computeProgress,
+  OFF_ROUTE_DEBOUNCE,
+  OFF_ROUTE_THRESHOLD,
+  prepareRoute,
+  type NavigationProgress,
+} from '@/lib/navigation';
+import type { RouteData } from '@/lib/routes';
+
+interface UseNavigationOptions {
+  muted?: boolean;
+  /** Meters from the route line before a position counts as off route */
+  offRouteThreshold?: number;
+  /** Milliseconds the user must stay off route before onOffRoute fires */
+  offRouteDebounce?: number;
+  onArrive?: () => void;
+  onOffRoute?: (position: Coordinates) => void;
+}
+
+interface NavigationState {
+  position: Coordinates | null;
+  heading: number | null;
+  progress: NavigationProgress | null;
+  isOffRoute: boolean;
+  error: GeolocationPositionError | null;
+}
+
+const initialState: NavigationState = {
+  position: null,
+  heading: null,
+  progress: null,
+  isOffRoute: false,
+  error: null,
+};
+
+/**
+ * Follows the device position along an active route and reports progress
+ * towards the next maneuver and the destination. Passing a null route stops
+ * tracking.
+ *
+ * Positions further than `offRouteThreshold` from the line for longer than
+ * `offRouteDebounce` trigger `onOffRoute`, repeating after each debounce
+ * period until the route is replaced or the user is back on it.
+ */
+export function useNavigation(route: RouteData | null, options: UseNavigationOptions = {}) {
+  const [state, setState] = useState<NavigationState>(initialState);
+  const prepared = useMemo(() => (route ? prepareRoute(route) : null), [route]);
+  const spoken = useRef(new Set<string>());
+  const optionsRef = useRef(options);
+
+  optionsRef.current = options;
+
+  useEffect(() => {
+    spoken.current.clear();
+    if (!prepared || !navigator.geolocation) {
+      setState(initialState);
+      return;
+    }
+
+    let arrived = false;
+    let offRouteSince: number | null = null;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const {
+          muted = false,
+          offRouteThreshold = OFF_ROUTE_THRESHOLD,
+          offRouteDebounce = OFF_ROUTE_DEBOUNCE,
+          onArrive,
+          onOffRoute,
+        } = optionsRef.current;
+        const coords: Coordinates = [position.coords.longitude, position.coords.latitude];
+        const progress = computeProgress(prepared, coords);
+
+        // Fixes less accurate than the threshold can't tell whether we left the route
+        const isOffRoute = !!progress
+          && position.coords.accuracy <= offRouteThreshold
+          && progress.snapped.distanceFromLine > offRouteThreshold;
+
+        setState({
+          position: coords,
+          heading: position.coords.heading,
+          progress,
+          isOffRoute,
+          error: null,
+        });
+
+        if (!progress) return;
+
+        if (!isOffRoute) {
+          offRouteSince = null;
+        } else if (offRouteSince === null) {
+          offRouteSince = position.timestamp;
+        } else if (position.timestamp - offRouteSince >= offRouteDebounce) {
+          offRouteSince = position.timestamp;
+          onOffRoute?.(coords);
+        }
+
+        const voice = progress.voice;
+        const voiceKey = voice && `${progress.stepIndex}:${voice.distanceAlongGeometry}`;
+        if (voice && voiceKey && !spoken.current.has(voiceKey)) {
+          spoken.current.add(voiceKey);
+          if (!muted && 'speechSynthesis' in window) {
+            const utterance = new SpeechSynthesisUtterance(voice.announcement);
+            utterance.lang = getLocale();
+            window.speechSynthesis.speak(utterance);
+          }
+        }
+
+        if (progress.arrived && !arrived) {
+          arrived = true;
+          onArrive?.();
+        }
+      },
+      (error) => setState((prev) => ({ ...prev, error })),
+      { enableHighAccuracy: true, maximumAge: 1000 }
+    );
+
+    return () => {
+      navigator.geolocation.clearWatch(watchId);
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    };
+  }, [prepared]);
+
+  return state;
+}
@@ -0,0 +1,24 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { createLocalStore } from '@/lib/local-store';
+import { deleteOfflineArea, type OfflineArea } from '@/lib/offline-tiles';
+
+const store = createLocalStore<OfflineArea[]>('offline_areas', []);
+
+/**
+ * Map areas downloaded for offline use, newest first. The list lives in
+ * localStorage; the map data itself is in Cache Storage.
+ */
+export function useOfflineAreas() {
+  const areas = useSyncExternalStore(store.subscribe, store.read);
+
+  const addArea = useCallback((area: OfflineArea) => {
+    store.write([area, ...store.read()]);
+  }, []);
+
+  const removeArea = useCallback(async (id: string) => {
+    await deleteOfflineArea(id);
+    store.write(store.read().filter((area) => area.id !== id));
+  }, []);
+
+  return { areas, addArea, removeArea };
+}
@@ -0,0 +1,50 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { t, type MessageKey } from '@/lib/i18n';
+import { createLocalStore } from '@/lib/local-store';
+import type { Place } from '@/lib/routes';
+
+export type SavedPlaceKind = 'home' | 'work' | 'custom';
+
+export interface SavedPlace extends Place {
+  id: string;
+  kind: SavedPlaceKind;
+  label: string;
+}
+
+const KIND_ORDER: SavedPlaceKind[] = ['home', 'work', 'custom'];
+
+export const SAVED_PLACE_LABELS: Record<Exclude<SavedPlaceKind, 'custom'>, MessageKey> = {
+  home: 'savedPlaces.home',
+  work: 'savedPlaces.work',
+};
+
+/** Home and Work read in the current language whatever language they were saved in */
+export const savedPlaceLabel = (place: SavedPlace) =>
+  place.kind === 'custom' ? place.label : t(SAVED_PLACE_LABELS[place.kind]);
+
+// Every input, chip row and panel shares one list
+const store = createLocalStore<SavedPlace[]>('saved_places', []);
+
+function writePlaces(places: SavedPlace[]) {
+  store.write([...places].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)));
+}
+
+/**
+ * Places the user saved for quick access, persisted in localStorage. Home and
+ * Work hold one place each; saving to either replaces what was there.
+ */
+export function useSavedPlaces() {
+  const places = useSyncExternalStore(store.subscribe, store.read);
+
+  const savePlace = useCallback((place: Place, kind: SavedPlaceKind, customLabel = '') => {
+    const label = kind === 'custom' ? customLabel.trim() || place.name.split(',')[0] : t(SAVED_PLACE_LABELS[kind]);
+    const saved: SavedPlace = { id: `${kind}-${Date.now()}`, kind, label, name: place.name, coordinates: place.coordinates };
+    writePlaces([...store.read().filter((existing) => kind === 'custom' || existing.kind !== kind), saved]);
+  }, []);
+
+  const removePlace = useCallback((id: string) => {
+    writePlaces(store.read().filter((place) => place.id !== id));
+  }, []);
+
+  return { places, savePlace, removePlace };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import type { Coordinates } from '@/lib/mapbox';
+import { findFasterRoute, type FasterRouteOffer, type RouteData } from '@/lib/routes';
+
+/** How often alternatives are re-queried during an active trip */
+export const TRAFFIC_REFRESH_INTERVAL = 2 * 60 * 1000;
+
+interface UseTrafficRefreshOptions {
+  enabled: boolean;
+  route: RouteData | null;
+  position: Coordinates | null;
+  remainingDuration: number | null;
+  /** Seconds an alternative must save before it is offered */
+  margin: number;
+  intervalMs?: number;
+  fetchAlternatives: (origin: Coordinates) => Promise<RouteData[]>;
+  onFasterRoute: (offer: FasterRouteOffer) => void;
+}
+
+/**
+ * Re-fetches route alternatives from the current position at a fixed interval
+ * and reports when one of them beats the active route by the given margin.
+ */
+export function useTrafficRefresh(options: UseTrafficRefreshOptions) {
+  const { enabled, intervalMs = TRAFFIC_REFRESH_INTERVAL } = options;
+  const optionsRef = useRef(options);
+
+  optionsRef.current = options;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let inFlight = false;
+    const intervalId = window.setInterval(async () => {
+      const { route, position, remainingDuration, margin, fetchAlternatives, onFasterRoute } = optionsRef.current;
+      if (inFlight || !route || !position || remainingDuration === null) return;
+
+      inFlight = true;
+      try {
+        const candidates = await fetchAlternatives(position);
+        const offer = findFasterRoute(route, remainingDuration, candidates, margin);
+        if (offer) onFasterRoute(offer);
+      } catch (error) {
+        console.error('Error refreshing traffic:', error);
+      } finally {
+        inFlight = false;
+      }
+    }, intervalMs);
+
+    return () => window.clearInterval(intervalId);
+  }, [enabled, intervalMs]);
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getLanguage, subscribeToLanguage, t } from '@/lib/i18n';
+
+/** `t` for messages in the selected language; re-renders when the language changes */
+export function useTranslation() {
+  const language = useSyncExternalStore(subscribeToLanguage, getLanguage);
+  return { t, language };
+}
@@ -0,0 +1,102 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import type { DirectionsProfile, RoadExclusion } from '@/lib/mapbox';
+import { getConfig } from '@/lib/config';
+import { createLocalStore } from '@/lib/local-store';
+import { queryClient } from '@/lib/queries';
+import { clearQueryCache } from '@/lib/query-persistence';
+import type { Place } from '@/lib/routes';
+
+export interface RecentDestination extends Place {
+  /** Epoch milliseconds */
+  searchedAt: number;
+}
+
+export interface TripRecord {
+  id: string;
+  /** Null when the trip started from the device location */
+  from: Place | null;
+  to: Place;
+  via: Place[];
+  profile: DirectionsProfile;
+  avoid: RoadExclusion[];
+  /** Which of the offered routes was driven */
+  routeIndex: number;
+  /** Seconds from starting navigation to arriving */
+  duration: number;
+  /** Meters, as planned */
+  distance: number;
+  /** Epoch milliseconds */
+  startedAt: number;
+}
+
+/** Choices for how many destinations and trips are kept; 0 turns history off */
+export const HISTORY_LIMITS = [0, 10, 25, 50, 100];
+const DEFAULT_HISTORY_LIMIT = 25;
+
+// Recent destinations shown when a search input is focused
+const RECENT_DESTINATIONS_SHOWN = 5;
+
+const destinationStore = createLocalStore<RecentDestination[]>('recent_destinations', []);
+const tripStore = createLocalStore<TripRecord[]>('trip_history', []);
+const limitStore = createLocalStore<number>('history_limit', DEFAULT_HISTORY_LIMIT);
+
+/**
+ * Whether history is kept at all: the deployment allows it and the user hasn't
+ * set the limit to 0. Cached place and route answers follow the same choice.
+ */
+export function isHistoryRecorded(): boolean {
+  return limitStore.read() > 0 && getConfig().features.tripHistory;
+}
+
+/**
+ * Destinations the user chose and trips they completed, newest first, kept on
+ * this device only. Both lists are trimmed to the history limit. Nothing is
+ * recorded when the deployment turns trip history off.
+ */
+export function useTripHistory() {
+  const destinations = useSyncExternalStore(destinationStore.subscribe, destinationStore.read);
+  const trips = useSyncExternalStore(tripStore.subscribe, tripStore.read);
+  const limit = useSyncExternalStore(limitStore.subscribe, limitStore.read);
+  const isEnabled = getConfig().features.tripHistory;
+
+  const addDestination = useCallback((place: Place) => {
+    if (!isHistoryRecorded()) return;
+    // Choosing a place again moves it to the top rather than repeating it
+    const others = destinationStore.read().filter((recent) => recent.name !== place.name);
+    destinationStore.write([{ ...place, searchedAt: Date.now() }, ...others].slice(0, limitStore.read()));
+  }, []);
+
+  const addTrip = useCallback((trip: Omit<TripRecord, 'id'>) => {
+    if (!isHistoryRecorded()) return;
+    tripStore.write([{ ...trip, id: String(trip.startedAt) }, ...tripStore.read()].slice(0, limitStore.read()));
+  }, []);
+
+  const removeTrip = useCallback((id: string) => {
+    tripStore.write(tripStore.read().filter((trip) => trip.id !== id));
+  }, []);
+
+  const setLimit = useCallback((max: number) => {
+    limitStore.write(max);
+    destinationStore.write(destinationStore.read().slice(0, max));
+    tripStore.write(tripStore.read().slice(0, max));
+    // Turning history off also forgets the answers saved for it
+    if (max === 0) clearQueryCache(queryClient);
+  }, []);
+
+  const clearHistory = useCallback(() => {
+    destinationStore.write([]);
+    tripStore.write([]);
+    clearQueryCache(queryClient);
+  }, []);
+
+  return {
+    recentDestinations: isEnabled ? destinations.slice(0, RECENT_DESTINATIONS_SHOWN) : [],
+    trips,
+    limit,
+    addDestination,
+    addTrip,
+    removeTrip,
+    setLimit,
+    clearHistory,
+  };
+}
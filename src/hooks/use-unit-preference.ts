@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getUnitPreference, setUnitPreference, subscribeToUnitPreference } from '@/lib/format';
+
+/** The user's choice of units, shared with every formatter */
+export function useUnitPreference() {
+  const preference = useSyncExternalStore(subscribeToUnitPreference, getUnitPreference);
+  return [preference, setUnitPreference] as const;
+}
@@ -0,0 +1,158 @@
+import type { UnitPreference } from '@/lib/format/units';
+import type { Coordinates } from '@/lib/mapbox';
+
+export interface FeatureToggles {
+  /** Multi-stop route optimization panel */
+  optimization: boolean;
+  /** Downloading map areas for offline use */
+  offlineMaps: boolean;
+  /** Recent destinations and the trip history page */
+  tripHistory: boolean;
+  /** Live traffic line layer on the map */
+  liveTraffic: boolean;
+}
+
+export interface AppConfig {
+  /** Token used when the user hasn't entered their own; skips the token screen */
+  mapboxToken: string | null;
+  map: {
+    center: Coordinates;
+    zoom: number;
+    pitch: number;
+    style: string;
+  };
+  /** Default for users who haven't chosen units themselves */
+  units: UnitPreference;
+  features: FeatureToggles;
+}
+
+/** Optional file next to index.html, read at startup so one build can serve several deployments */
+const RUNTIME_CONFIG_URL = '/config.json';
+
+const DEFAULT_CONFIG: AppConfig = {
+  mapboxToken: null,
+  map: {
+    center: [-74.006, 40.7128], // NYC
+    zoom: 12,
+    pitch: 45,
+    style: 'mapbox://styles/mapbox/navigation-night-v1',
+  },
+  units: 'auto',
+  features: {
+    optimization: true,
+    offlineMaps: true,
+    tripHistory: true,
+    liveTraffic: true,
+  },
+};
+
+// The shape config.json may take; every field is optional
+interface ConfigOverrides {
+  mapboxToken?: string | null;
+  map?: Partial<AppConfig['map']>;
+  units?: UnitPreference;
+  features?: Partial<FeatureToggles>;
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+function parseCenter(value: unknown): Coordinates | undefined {
+  const parts = typeof value === 'string' ? value.split(',').map(Number) : value;
+  if (!Array.isArray(parts) || parts.length !== 2 || !parts.every(isNumber)) return undefined;
+  const [lng, lat] = parts as Coordinates;
+  return Math.abs(lng) <= 180 && Math.abs(lat) <= 90 ? [lng, lat] : undefined;
+}
+
+function parseNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  return isNumber(number) ? number : undefined;
+}
+
+function parseUnits(value: unknown): UnitPreference | undefined {
+  return value === 'auto' || value === 'metric' || value === 'imperial' ? value : undefined;
+}
+
+/** `VITE_DISABLED_FEATURES=optimization,offlineMaps` turns those features off */
+function parseDisabledFeatures(value: string | undefined): Partial<FeatureToggles> {
+  const disabled: Partial<FeatureToggles> = {};
+  value?.split(',').map((name) => name.trim()).forEach((name) => {
+    if (name in DEFAULT_CONFIG.features) disabled[name as keyof FeatureToggles] = false;
+  });
+  return disabled;
+}
+
+function envOverrides(): ConfigOverrides {
+  const env = import.meta.env;
+  return {
+    mapboxToken: env.VITE_MAPBOX_TOKEN?.trim() || undefined,
+    map: {
+      center: parseCenter(env.VITE_MAP_CENTER),
+      zoom: parseNumber(env.VITE_MAP_ZOOM),
+      pitch: parseNumber(env.VITE_MAP_PITCH),
+      style: env.VITE_MAP_STYLE?.trim() || undefined,
+    },
+    units: parseUnits(env.VITE_UNITS),
+    features: parseDisabledFeatures(env.VITE_DISABLED_FEATURES),
+  };
+}
+
+/** Keeps only the well-formed fields of an untrusted config.json */
+function runtimeOverrides(json: unknown): ConfigOverrides {
+  if (!json || typeof json !== 'object') return {};
+  const { mapboxToken, map, units, features } = json as Record<string, unknown>;
+  const mapJson = (map && typeof map === 'object' ? map : {}) as Record<string, unknown>;
+  const featureJson = (features && typeof features === 'object' ? features : {}) as Record<string, unknown>;
+
+  return {
+    mapboxToken: typeof mapboxToken === 'string' && mapboxToken.trim() ? mapboxToken.trim() : undefined,
+    map: {
+      center: parseCenter(mapJson.center),
+      zoom: parseNumber(mapJson.zoom),
+      pitch: parseNumber(mapJson.pitch),
+      style: typeof mapJson.style === 'string' && mapJson.style.trim() ? mapJson.style.trim() : undefined,
+    },
+    units: parseUnits(units),
+    features: Object.fromEntries(
+      Object.keys(DEFAULT_CONFIG.features)
+        .filter((name) => typeof featureJson[name] === 'boolean')
+        .map((name) => [name, featureJson[name]])
+    ),
+  };
+}
+
+// Fields left undefined keep the value underneath
+const defined = <T extends object>(values: T | undefined) =>
+  Object.fromEntries(Object.entries(values ?? {}).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+function merge(base: AppConfig, overrides: ConfigOverrides): AppConfig {
+  return {
+    mapboxToken: overrides.mapboxToken ?? base.mapboxToken,
+    map: { ...base.map, ...defined(overrides.map) },
+    units: overrides.units ?? base.units,
+    features: { ...base.features, ...defined(overrides.features) },
+  };
+}
+
+let config: AppConfig = merge(DEFAULT_CONFIG, envOverrides());
+
+export function getConfig(): AppConfig {
+  return config;
+}
+
+/**
+ * Layers `config.json` over the build-time environment. Deployments without
+ * the file, or with one that can't be read, keep the environment's values.
+ * Runs once before the app renders.
+ */
+export async function loadConfig(): Promise<AppConfig> {
+  try {
+    const response = await fetch(RUNTIME_CONFIG_URL, { cache: 'no-cache' });
+    const isJson = response.headers.get('content-type')?.includes('json');
+    if (response.ok && isJson) {
+      config = merge(config, runtimeOverrides(await response.json()));
+    }
+  } catch (error) {
+    console.error('Error loading runtime config:', error);
+  }
+  return config;
+}
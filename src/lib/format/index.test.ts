@@ -0,0 +1,123 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setLanguagePreference } from '@/lib/i18n/language';
+import {
+  formatDistance,
+  formatDuration,
+  formatNumber,
+  getUnitSystem,
+  localeUnitSystem,
+  setUnitPreference,
+  type UnitPreference,
+} from '.';
+
+// Intl separates numbers from units with various kinds of space
+const plain = (text: string) => text.replace(/\s/g, ' ');
+
+const useBrowserLocale = (locale: string, units: UnitPreference = 'auto') => {
+  vi.stubGlobal('navigator', { language: locale, languages: [locale] });
+  setUnitPreference(units);
+};
+
+beforeEach(() => setLanguagePreference(null));
+afterEach(() => vi.unstubAllGlobals());
+
+describe('formatDistance', () => {
+  it.each([
+    [994, '990 m'],
+    [995, '1 km'],
+    [1000, '1 km'],
+    [1500, '1.5 km'],
+    [99_940, '99.9 km'],
+    [150_000, '150 km'],
+  ])('shows %d m as %s in metric', (meters, expected) => {
+    useBrowserLocale('en-US', 'metric');
+    expect(plain(formatDistance(meters))).toBe(expected);
+  });
+
+  it.each([
+    [30, '100 ft'],
+    [159, '500 ft'],
+    [160.5, '0.1 mi'],
+    [160.9344, '0.1 mi'],
+    [1609.344, '1 mi'],
+    [200_000, '124 mi'],
+  ])('shows %d m as %s in imperial', (meters, expected) => {
+    useBrowserLocale('en-US', 'imperial');
+    expect(plain(formatDistance(meters))).toBe(expected);
+  });
+
+  it('uses the locale decimal separator', () => {
+    useBrowserLocale('de-DE');
+    expect(plain(formatDistance(1500))).toBe('1,5 km');
+    useBrowserLocale('es-ES');
+    expect(plain(formatDistance(1500))).toBe('1,5 km');
+  });
+});
+
+describe('unit system', () => {
+  it.each([
+    ['en-US', 'imperial'],
+    ['en-GB', 'imperial'],
+    ['en', 'imperial'],
+    ['de-DE', 'metric'],
+    ['de', 'metric'],
+    ['es-MX', 'metric'],
+    ['not a locale', 'metric'],
+  ])('resolves %s to %s', (locale, system) => {
+    expect(localeUnitSystem(locale)).toBe(system);
+  });
+
+  it('follows the browser region on auto', () => {
+    useBrowserLocale('en-GB');
+    expect(getUnitSystem()).toBe('imperial');
+    expect(plain(formatDistance(1609.344))).toBe('1 mi');
+
+    useBrowserLocale('de-DE');
+    expect(getUnitSystem()).toBe('metric');
+    expect(plain(formatDistance(1000))).toBe('1 km');
+  });
+
+  it('lets a chosen unit system override the locale', () => {
+    useBrowserLocale('en-US', 'metric');
+    expect(getUnitSystem()).toBe('metric');
+
+    useBrowserLocale('de-DE', 'imperial');
+    expect(getUnitSystem()).toBe('imperial');
+  });
+});
+
+describe('formatDuration', () => {
+  it.each([
+    [0, '0m'],
+    [3569, '59m'],
+    [3599, '1h 0m'],
+    [3600, '1h 0m'],
+    [3630, '1h 1m'],
+    [7500, '2h 5m'],
+  ])('shows %d s as %s', (seconds, expected) => {
+    useBrowserLocale('en-US');
+    expect(plain(formatDuration(seconds))).toBe(expected);
+  });
+
+  it('uses the language unit names', () => {
+    useBrowserLocale('de-DE');
+    expect(plain(formatDuration(3600))).toBe('1 Std. 0 Min.');
+    useBrowserLocale('es-ES');
+    expect(plain(formatDuration(3600))).toBe('1h 0min');
+  });
+});
+
+describe('formatNumber', () => {
+  it.each([
+    ['en-US', 1234567.891, '1,234,567.891'],
+    ['de-DE', 1234567.891, '1.234.567,891'],
+    ['de-DE', 1234, '1.234'],
+    ['es-ES', 1234567.891, '1.234.567,891'],
+    // Spanish only groups digits from five up
+    ['es-ES', 1234, '1234'],
+  ])('formats in %s', (locale, value, expected) => {
+    useBrowserLocale(locale);
+    expect(formatNumber(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,91 @@
+import { t } from '@/lib/i18n';
+import type { TripTiming } from '@/lib/routes';
+import { getLocale } from './locale';
+import { getUnitSystem } from './units';
+
+export { getLocale, localeRegion } from './locale';
+export {
+  UNIT_PREFERENCES,
+  getUnitPreference,
+  getUnitSystem,
+  localeUnitSystem,
+  setUnitPreference,
+  subscribeToUnitPreference,
+  type UnitPreference,
+  type UnitSystem,
+} from './units';
+
+const METERS_PER_MILE = 1609.344;
+const METERS_PER_FOOT = 0.3048;
+
+// Below these, distances read better in meters or feet
+const SHORT_METRIC_DISTANCE = 1000;
+const SHORT_IMPERIAL_DISTANCE = 0.1 * METERS_PER_MILE;
+
+type Unit = 'hour' | 'minute' | 'meter' | 'kilometer' | 'foot' | 'mile' | 'kilobyte' | 'megabyte' | 'gigabyte';
+
+const formatUnit = (value: number, unit: Unit, options: Intl.NumberFormatOptions = {}) =>
+  new Intl.NumberFormat(getLocale(), {
+    style: 'unit',
+    unit,
+    unitDisplay: unit === 'hour' || unit === 'minute' ? 'narrow' : 'short',
+    maximumFractionDigits: 0,
+    ...options,
+  }).format(value);
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+export const formatNumber = (value: number) => new Intl.NumberFormat(getLocale()).format(value);
+
+/** Whole minutes, with hours once past the hour, e.g. `1h 5m` in English */
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return hours > 0
+    ? `${formatUnit(hours, 'hour')} ${formatUnit(remainingMinutes, 'minute')}`
+    : formatUnit(minutes, 'minute');
+};
+
+/** Kilometers or miles in the preferred units, dropping to meters or feet when close */
+export const formatDistance = (meters: number) => {
+  // Compared after rounding, so 998 m reads `1 km` rather than `1,000 m`
+  if (getUnitSystem() === 'metric') {
+    const shortMeters = roundTo(meters, 10);
+    return shortMeters < SHORT_METRIC_DISTANCE
+      ? formatUnit(shortMeters, 'meter')
+      : formatUnit(meters / 1000, 'kilometer', { maximumFractionDigits: meters < 100000 ? 1 : 0 });
+  }
+  const feet = roundTo(meters / METERS_PER_FOOT, 50);
+  return feet * METERS_PER_FOOT < SHORT_IMPERIAL_DISTANCE
+    ? formatUnit(feet, 'foot')
+    : formatUnit(meters / METERS_PER_MILE, 'mile', { maximumFractionDigits: meters < 100 * METERS_PER_MILE ? 1 : 0 });
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return formatUnit(Math.max(1, Math.round(bytes / 1024)), 'kilobyte');
+  if (bytes < 1024 ** 3) return formatUnit(bytes / 1024 ** 2, 'megabyte', { maximumFractionDigits: 1 });
+  return formatUnit(bytes / 1024 ** 3, 'gigabyte', { maximumFractionDigits: 1 });
+};
+
+export const formatClockTime = (date: Date) =>
+  date.toLocaleTimeString(getLocale(), { hour: '2-digit', minute: '2-digit' });
+
+/** Weekday, day, month and time, e.g. `Mon 3 Mar, 08:30` */
+export const formatDateTime = (date: Date | number) =>
+  new Intl.DateTimeFormat(getLocale(), {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date);
+
+export const formatDate = (date: Date | number) =>
+  new Intl.DateTimeFormat(getLocale(), { day: 'numeric', month: 'short', year: 'numeric' }).format(date);
+
+export const formatTripTiming = (timing: TripTiming) => {
+  if (timing.type === 'now') return t('timing.leaveNow');
+  const time = formatDateTime(timing.time);
+  return timing.type === 'depart_at' ? t('timing.leaveAtTime', { time }) : t('timing.arriveByTime', { time });
+};
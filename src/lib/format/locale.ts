@@ -0,0 +1,21 @@
+import { getLanguage } from '@/lib/i18n/language';
+
+/**
+ * BCP 47 tag used for every number, date and unit the app shows. The browser's
+ * own tag is kept while it is in the chosen language, so its region still
+ * decides things like date order; otherwise the bare language is used.
+ */
+export function getLocale(): string {
+  const language = getLanguage();
+  const browserLocale = typeof navigator !== 'undefined' ? navigator.language : undefined;
+  return browserLocale?.split('-')[0].toLowerCase() === language ? browserLocale : language;
+}
+
+/** Region of a locale tag, filled in from the language when the tag has none */
+export function localeRegion(locale: string): string | undefined {
+  try {
+    return new Intl.Locale(locale).maximize().region;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,36 @@
+import { getConfig } from '@/lib/config';
+import { createLocalStore } from '@/lib/local-store';
+import { getLocale, localeRegion } from './locale';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/** `auto` follows the locale */
+export type UnitPreference = 'auto' | UnitSystem;
+
+export const UNIT_PREFERENCES: UnitPreference[] = ['auto', 'metric', 'imperial'];
+
+// Countries whose road signs use miles
+const IMPERIAL_REGIONS = ['US', 'GB', 'LR', 'MM'];
+
+// Null until the user picks, so the deployment's default applies
+const preferenceStore = createLocalStore<UnitPreference | null>('units', null);
+
+export function localeUnitSystem(locale: string): UnitSystem {
+  return IMPERIAL_REGIONS.includes(localeRegion(locale) ?? '') ? 'imperial' : 'metric';
+}
+
+export function getUnitPreference(): UnitPreference {
+  return preferenceStore.read() ?? getConfig().units;
+}
+
+export function setUnitPreference(preference: UnitPreference) {
+  preferenceStore.write(preference);
+}
+
+export const subscribeToUnitPreference = preferenceStore.subscribe;
+
+/** The units distances are shown and spoken in right now */
+export function getUnitSystem(): UnitSystem {
+  const preference = getUnitPreference();
+  return preference === 'auto' ? localeUnitSystem(getLocale()) : preference;
+}
@@ -0,0 +1,86 @@
+import type { Coordinates } from '@/lib/mapbox';
+
+const EARTH_RADIUS = 6371008.8; // meters
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance between two [lng, lat] positions, in meters */
+export function haversineDistance(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Cumulative distance in meters at each vertex of a line, starting at 0 */
+export function cumulativeDistances(line: Coordinates[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < line.length; i++) {
+    distances.push(distances[i - 1] + haversineDistance(line[i - 1], line[i]));
+  }
+  return distances;
+}
+
+export interface SnappedPoint {
+  point: Coordinates;
+  /** Index of the segment start vertex the point was snapped onto */
+  segmentIndex: number;
+  /** Meters from the start of the line to the snapped point */
+  distanceAlong: number;
+  /** Meters between the original position and the snapped point */
+  distanceFromLine: number;
+}
+
+/**
+ * Projects a position onto the closest segment of a line. Segments are
+ * treated as planar in a local equirectangular projection, which is accurate
+ * enough at street scale.
+ */
+export function snapToLine(
+  position: Coordinates,
+  line: Coordinates[],
+  distances: number[] = cumulativeDistances(line)
+): SnappedPoint | null {
+  if (line.length === 0) return null;
+  if (line.length === 1) {
+    return {
+      point: line[0],
+      segmentIndex: 0,
+      distanceAlong: 0,
+      distanceFromLine: haversineDistance(position, line[0]),
+    };
+  }
+
+  const cosLat = Math.cos(toRadians(position[1]));
+  let best: SnappedPoint | null = null;
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = line[i];
+    const [bx, by] = line[i + 1];
+    const dx = (bx - ax) * cosLat;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+
+    let t = 0;
+    if (lengthSquared > 0) {
+      t = (((position[0] - ax) * cosLat) * dx + (position[1] - ay) * dy) / lengthSquared;
+      t = Math.max(0, Math.min(1, t));
+    }
+
+    const point: Coordinates = [ax + (bx - ax) * t, ay + (by - ay) * t];
+    const distanceFromLine = haversineDistance(position, point);
+
+    if (!best || distanceFromLine < best.distanceFromLine) {
+      best = {
+        point,
+        segmentIndex: i,
+        distanceAlong: distances[i] + (distances[i + 1] - distances[i]) * t,
+        distanceFromLine,
+      };
+    }
+  }
+
+  return best;
+}
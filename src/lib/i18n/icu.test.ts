@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { formatMessage } from './icu';
+
+const STOPS = '{count, plural, =0 {No stops} one {# stop} other {# stops}}';
+
+describe('formatMessage', () => {
+  it('fills in arguments and leaves unknown ones visible', () => {
+    expect(formatMessage('Drive to {place}', { place: 'Depot' })).toBe('Drive to Depot');
+    expect(formatMessage('Drive to {place}')).toBe('Drive to {place}');
+  });
+
+  it('formats numbers for the locale', () => {
+    expect(formatMessage('{distance, number} m', { distance: 1234.5 }, 'en')).toBe('1,234.5 m');
+    expect(formatMessage('{distance, number} m', { distance: 1234.5 }, 'de')).toBe('1.234,5 m');
+    expect(formatMessage('{distance} m', { distance: 12345 }, 'es')).toBe('12.345 m');
+  });
+
+  it.each([
+    [0, 'No stops'],
+    [1, '1 stop'],
+    [2, '2 stops'],
+    [1000, '1,000 stops'],
+  ])('picks the plural branch for %d', (count, expected) => {
+    expect(formatMessage(STOPS, { count })).toBe(expected);
+  });
+
+  it('prefers an exact match over the plural category', () => {
+    expect(formatMessage('{count, plural, =1 {Just one} one {# item} other {# items}}', { count: 1 })).toBe('Just one');
+  });
+
+  it('substitutes every # in the branch with the locale number', () => {
+    expect(formatMessage('{count, plural, other {# of #}}', { count: 1500 }, 'de')).toBe('1.500 of 1.500');
+  });
+
+  it('keeps # as text outside a plural', () => {
+    expect(formatMessage('Stop #{number}', { number: 3 })).toBe('Stop #3');
+  });
+
+  it('picks the select branch, falling back to other', () => {
+    const message = '{kind, select, home {Home} work {Work} other {Saved place}}';
+    expect(formatMessage(message, { kind: 'home' })).toBe('Home');
+    expect(formatMessage(message, { kind: 'work' })).toBe('Work');
+    expect(formatMessage(message, { kind: 'gym' })).toBe('Saved place');
+  });
+
+  it('nests a plural inside a select', () => {
+    const message = '{kind, select, ' +
+      'trip {{count, plural, one {# trip to {place}} other {# trips to {place}}}} ' +
+      'other {{count, plural, one {# visit} other {# visits}}}}';
+    expect(formatMessage(message, { kind: 'trip', count: 1, place: 'Leeds' })).toBe('1 trip to Leeds');
+    expect(formatMessage(message, { kind: 'trip', count: 3, place: 'Leeds' })).toBe('3 trips to Leeds');
+    expect(formatMessage(message, { kind: 'visit', count: 2 })).toBe('2 visits');
+  });
+
+  it('reads quoted braces and # as text', () => {
+    expect(formatMessage("Use '{name}' as a placeholder", { name: 'x' })).toBe('Use {name} as a placeholder');
+    expect(formatMessage("A lone '}' brace")).toBe('A lone } brace');
+    expect(formatMessage("{count, plural, other {# item'#' '{'{count}'}'}}", { count: 2 }))
+      .toBe('2 item# {2}');
+  });
+
+  it('keeps plain apostrophes and turns doubled ones into one', () => {
+    expect(formatMessage("Couldn't read {file}", { file: 'stops.csv' })).toBe("Couldn't read stops.csv");
+    expect(formatMessage("It''s {time}", { time: '8:00' })).toBe("It's 8:00");
+    expect(formatMessage("'{'it''s quoted'}'")).toBe("{it's quoted}");
+  });
+
+  it.each([
+    // German and Spanish both use `one` for exactly 1 and `other` for the rest
+    ['de', 1, '1 Halt'],
+    ['de', 0, '0 Halte'],
+    ['de', 2, '2 Halte'],
+    ['de', 1.5, '1,5 Halte'],
+    ['es', 1, '1 parada'],
+    ['es', 0, '0 paradas'],
+    ['es', 21, '21 paradas'],
+  ])('uses the %s plural rules for %d', (locale, count, expected) => {
+    const message = locale === 'de'
+      ? '{count, plural, one {# Halt} other {# Halte}}'
+      : '{count, plural, one {# parada} other {# paradas}}';
+    expect(formatMessage(message, { count }, locale)).toBe(expected);
+  });
+
+  it('throws on an unclosed brace', () => {
+    expect(() => formatMessage('{count, plural, one {# stop}')).toThrow('Unclosed brace');
+  });
+});
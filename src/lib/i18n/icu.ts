@@ -0,0 +1,147 @@
+// A small ICU MessageFormat subset: `{name}`, `{n, number}`,
+// `{n, plural, =0 {…} one {# item} other {# items}}` and
+// `{kind, select, home {…} other {…}}`. As in ICU, an apostrophe before `{`,
+// `}` or `#` quotes text up to the next apostrophe and `''` is one apostrophe;
+// any other apostrophe is plain text, so catalogs can write "don't".
+
+export type MessageValues = Record<string, string | number>;
+
+type Part =
+  | string
+  | { type: 'count' }
+  | { type: 'argument'; name: string; format?: 'number' }
+  | { type: 'plural' | 'select'; name: string; options: Record<string, Part[]> };
+
+// Parsed messages, as the same strings are formatted on every render
+const parsed = new Map<string, Part[]>();
+
+// Characters an apostrophe escapes
+const SYNTAX_CHARACTERS = '{}#';
+
+/**
+ * Literal text for quoting that starts with the apostrophe at `start`, and
+ * the index it ends at. Null when the apostrophe is just an apostrophe.
+ */
+function readQuote(message: string, start: number): { text: string; end: number } | null {
+  const next = message[start + 1];
+  if (next === "'") return { text: "'", end: start + 1 };
+  if (next === undefined || !SYNTAX_CHARACTERS.includes(next)) return null;
+
+  let text = '';
+  let i = start + 1;
+  for (; i < message.length; i++) {
+    if (message[i] !== "'") {
+      text += message[i];
+    } else if (message[i + 1] === "'") {
+      text += "'";
+      i++;
+    } else {
+      break;
+    }
+  }
+  return { text, end: i };
+}
+
+/** Index of the brace closing the one opening at `start`, skipping quoted text */
+function closingBrace(message: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < message.length; i++) {
+    const quote = message[i] === "'" ? readQuote(message, i) : null;
+    if (quote) {
+      i = quote.end;
+      continue;
+    }
+    if (message[i] === '{') depth++;
+    if (message[i] === '}' && --depth === 0) return i;
+  }
+  throw new Error(`Unclosed brace in message: ${message}`);
+}
+
+function parseOptions(body: string): Record<string, Part[]> {
+  const options: Record<string, Part[]> = {};
+  let i = 0;
+  while (i < body.length) {
+    const open = body.indexOf('{', i);
+    if (open === -1) break;
+    const selector = body.slice(i, open).trim();
+    const close = closingBrace(body, open);
+    options[selector] = parse(body.slice(open + 1, close));
+    i = close + 1;
+  }
+  return options;
+}
+
+function parse(message: string): Part[] {
+  const parts: Part[] = [];
+  let text = '';
+  const endText = () => {
+    if (text) parts.push(text);
+    text = '';
+  };
+
+  for (let i = 0; i < message.length; i++) {
+    const char = message[i];
+    const quote = char === "'" ? readQuote(message, i) : null;
+    if (quote) {
+      text += quote.text;
+      i = quote.end;
+    } else if (char === '#') {
+      endText();
+      parts.push({ type: 'count' });
+    } else if (char === '{') {
+      endText();
+      const close = closingBrace(message, i);
+      const [name, type, ...rest] = message.slice(i + 1, close).split(',');
+      const kind = type?.trim();
+      if (kind === 'plural' || kind === 'select') {
+        parts.push({ type: kind, name: name.trim(), options: parseOptions(rest.join(',')) });
+      } else {
+        parts.push({ type: 'argument', name: name.trim(), format: kind === 'number' ? 'number' : undefined });
+      }
+      i = close;
+    } else {
+      text += char;
+    }
+  }
+  endText();
+  return parts;
+}
+
+function render(parts: Part[], values: MessageValues, locale: string, count?: number): string {
+  return parts.map((part) => {
+    if (typeof part === 'string') return part;
+    if (part.type === 'count') {
+      // `#` stands for the number inside a plural branch
+      return count === undefined ? '#' : new Intl.NumberFormat(locale).format(count);
+    }
+
+    const value = values[part.name];
+    if (part.type === 'argument') {
+      if (value === undefined) return `{${part.name}}`;
+      return part.format === 'number' || typeof value === 'number'
+        ? new Intl.NumberFormat(locale).format(Number(value))
+        : value;
+    }
+
+    if (part.type === 'plural') {
+      const number = Number(value);
+      const branch = part.options[`=${number}`]
+        ?? part.options[new Intl.PluralRules(locale).select(number)]
+        ?? part.options.other;
+      return branch ? render(branch, values, locale, number) : '';
+    }
+
+    const branch = part.options[String(value)] ?? part.options.other;
+    return branch ? render(branch, values, locale, count) : '';
+  }).join('');
+}
+
+/** Fills in a message's arguments, choosing plural and select branches for `locale` */
+export function formatMessage(message: string, values: MessageValues = {}, locale = 'en'): string {
+  let parts = parsed.get(message);
+  if (!parts) {
+    parts = parse(message);
+    parsed.set(message, parts);
+  }
+  return render(parts, values, locale);
+}
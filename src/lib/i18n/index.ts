@@ -0,0 +1,30 @@
+import { getLocale } from '@/lib/format/locale';
+import { formatMessage, type MessageValues } from './icu';
+import { getLanguage, type Language } from './language';
+import de from './messages/de';
+import en, { type MessageKey } from './messages/en';
+import es from './messages/es';
+
+export { formatMessage, type MessageValues } from './icu';
+export {
+  LANGUAGES,
+  LANGUAGE_NAMES,
+  browserLanguage,
+  getLanguage,
+  getLanguagePreference,
+  setLanguagePreference,
+  subscribeToLanguage,
+  type Language,
+} from './language';
+export type { MessageKey } from './messages/en';
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, es, de };
+
+/**
+ * The message for `key` in the selected language, with its arguments filled
+ * in. Reads the language on every call, so components re-rendering through
+ * `useTranslation` pick up a switch straight away.
+ */
+export function t(key: MessageKey, values?: MessageValues): string {
+  return formatMessage(CATALOGS[getLanguage()][key] ?? en[key], values, getLocale());
+}
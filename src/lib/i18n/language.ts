@@ -0,0 +1,45 @@
+import { createLocalStore } from '@/lib/local-store';
+
+/** Languages with a message catalog; the first is the fallback */
+export const LANGUAGES = ['en', 'es', 'de'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+/** Each language in its own words, as the switcher lists them */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Español',
+  de: 'Deutsch',
+};
+
+const isLanguage = (value: string): value is Language => (LANGUAGES as readonly string[]).includes(value);
+
+// Null until the user picks, so the browser's languages decide
+const preferenceStore = createLocalStore<Language | null>('language', null);
+
+/** The first of the browser's languages that has a catalog */
+export function browserLanguage(): Language {
+  const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  for (const tag of preferred) {
+    const primary = tag?.split('-')[0].toLowerCase();
+    if (primary && isLanguage(primary)) return primary;
+  }
+  return LANGUAGES[0];
+}
+
+export function getLanguagePreference(): Language | null {
+  const stored = preferenceStore.read();
+  return stored && isLanguage(stored) ? stored : null;
+}
+
+/** Null goes back to following the browser */
+export function setLanguagePreference(language: Language | null) {
+  preferenceStore.write(language);
+}
+
+export const subscribeToLanguage = preferenceStore.subscribe;
+
+/** The language the interface is shown in right now */
+export function getLanguage(): Language {
+  return getLanguagePreference() ?? browserLanguage();
+}
@@ -0,0 +1,242 @@
+import type { MessageKey } from './en';
+
+const de: Record<MessageKey, string> = {
+  'common.backToMap': 'Zurück zur Karte',
+  'common.cancel': 'Abbrechen',
+  'common.clear': 'Leeren',
+  'common.currentLocation': 'Aktueller Standort',
+  'common.delete': 'Löschen',
+  'common.minutes': '{minutes} Min.',
+  'common.save': 'Speichern',
+  'common.settings': 'Einstellungen',
+  'common.tripHistory': 'Fahrtenverlauf',
+  'common.tryAgain': 'Bitte versuche es erneut.',
+  'common.tryDifferentLocation': 'Bitte versuche einen anderen Ort.',
+
+  'language.label': 'Sprache',
+  'language.auto': 'Automatisch: {language}',
+  'language.hint': 'Kartenbeschriftungen folgen derselben Sprache, wo die Karte Namen darin hat.',
+
+  'profile.drivingTraffic': 'Auto (Live-Verkehr)',
+  'profile.driving': 'Auto',
+  'profile.walking': 'Zu Fuß',
+  'profile.cycling': 'Fahrrad',
+
+  'exclusion.toll': 'Maut',
+  'exclusion.motorway': 'Autobahnen',
+  'exclusion.ferry': 'Fähren',
+  'exclusion.unpaved': 'Unbefestigte Straßen',
+
+  'route.number': 'Route {number}',
+  'route.leave': 'Abfahrt {time}',
+  'route.arrive': 'Ankunft {time}',
+
+  'timing.now': 'Jetzt',
+  'timing.leaveNow': 'Jetzt losfahren',
+  'timing.leaveAt': 'Abfahrt um',
+  'timing.arriveBy': 'Ankunft bis',
+  'timing.leaveAtTime': 'Abfahrt: {time}',
+  'timing.arriveByTime': 'Ankunft bis: {time}',
+  'timing.time': 'Uhrzeit',
+  'timing.apply': 'Übernehmen',
+
+  'map.arrived.title': 'Du bist angekommen',
+  'map.locationDenied.title': 'Standortzugriff verweigert',
+  'map.locationDenied.description': 'Erlaube den Standortzugriff oder gib einen Startpunkt ein, um Routen zu erhalten.',
+  'map.locationUnavailable.title': 'Standort nicht verfügbar',
+  'map.locationUnavailable.navigation': 'Die Navigation braucht Zugriff auf deinen Standort, um der Route zu folgen.',
+  'map.locationUnavailable.start': 'Erlaube den Standortzugriff, um an deiner aktuellen Position zu starten.',
+  'map.fasterRoute.title': 'Schnellere Route gefunden',
+  'map.fasterRoute.description': 'Spare {duration} mit einer Route mit weniger Verkehr.',
+  'map.fasterRoute.action': 'Wechseln',
+  'map.fasterRoute.actionLabel': 'Zur schnelleren Route wechseln',
+  'map.offRoute.title': 'Route verlassen',
+  'map.offRoute.description': 'Neue Route ab deiner Position wird gesucht...',
+  'map.rerouteFailed.title': 'Neuberechnung fehlgeschlagen',
+  'map.rerouteFailed.description': 'Folge weiter der ursprünglichen Route oder versuche es gleich noch einmal.',
+  'map.chooseStart.title': 'Startpunkt wählen',
+  'map.chooseStart.description': 'Gib eine Startadresse ein, wähle einen Punkt auf der Karte oder erlaube den Standortzugriff.',
+  'map.destinationNotFound.title': 'Ziel nicht gefunden',
+  'map.trafficDetected.title': 'Verkehr erkannt!',
+  'map.trafficDetected.description': 'Route {number} umgeht den Großteil der Staus.',
+  'map.routeError.title': 'Routenfehler',
+  'map.routeError.description': 'Route konnte nicht berechnet werden. Bitte versuche es erneut.',
+  'map.routeError.noRouteWithExclusions': 'Keine Route meidet alles, was du meiden möchtest. Lockere deine Routeneinstellungen.',
+  'map.placesNotFound.title': 'Einige Orte nicht gefunden',
+  'map.placesNotFound.description': 'Teile der geteilten Fahrt konnten nicht gefunden werden und wurden weggelassen.',
+  'map.sharedTripError.title': 'Geteilte Fahrt konnte nicht geöffnet werden',
+  'map.sharedTripError.description': 'Bitte prüfe den Link und versuche es erneut.',
+  'map.startNotFound.title': 'Startpunkt nicht gefunden',
+  'map.startError.title': 'Fehler beim Startpunkt',
+  'map.startError.description': 'Dieser Startpunkt wurde nicht gefunden. Bitte versuche es erneut.',
+  'map.stopNotFound.title': 'Zwischenstopp nicht gefunden',
+  'map.addStopError.title': 'Fehler beim Hinzufügen des Zwischenstopps',
+  'map.startPlaceholder': 'Startpunkt...',
+  'map.stopPlaceholder': 'Zwischenstopp hinzufügen...',
+  'map.useCurrentLocation': 'Aktuellen Standort verwenden',
+  'map.pickStart': 'Startpunkt auf der Karte wählen',
+  'map.pickStartHint': 'Klicke auf die Karte, um den Startpunkt festzulegen.',
+  'map.pickPlaceHint': 'Klicke auf die Karte, um einen Ort zum Speichern zu wählen.',
+  'map.addStops': 'Zwischenstopps hinzufügen',
+  'map.swap': 'Start und Ziel tauschen',
+  'map.routeOptions': 'Routenoptionen',
+  'map.exportName': '{from} nach {to}',
+  'map.fasterRouteMargin': 'Schnellere Routen anbieten ab einer Ersparnis von',
+  'map.startNavigation': 'Navigation starten',
+
+  'search.placeholder': 'Ziel eingeben...',
+
+  'navigation.rerouting': 'Route wird neu berechnet...',
+  'navigation.waitingForGps': 'Warte auf GPS...',
+  'navigation.locating': 'Standort wird ermittelt...',
+  'navigation.end': 'Beenden',
+
+  'optimization.title': 'Routenoptimierung',
+  'optimization.description': 'Füge mehrere Stopps hinzu, um die effizienteste Reihenfolge zu finden',
+  'optimization.addPlaceholder': 'Ziel hinzufügen...',
+  'optimization.import': 'Stopps aus CSV, GeoJSON oder GPX importieren',
+  'optimization.destinations': '{count, plural, one {Ziel (#)} other {Ziele (#)}}',
+  'optimization.start': 'Start',
+  'optimization.returnToStart': 'Zum Start zurückkehren',
+  'optimization.finishAtLast': 'Am letzten Ziel enden',
+  'optimization.optimizedOrder': 'Optimierte Reihenfolge',
+  'optimization.savings': 'Spart {duration} und {distance} gegenüber deiner Reihenfolge ({originalDuration} · {originalDistance})',
+  'optimization.alreadyFastest': 'Deine ursprüngliche Reihenfolge ist bereits die schnellste.',
+  'optimization.backToStart': 'Zurück zum Start',
+  'optimization.late': 'Verspätet',
+  'optimization.wait': ', {duration} warten',
+  'optimization.optimizing': 'Wird optimiert...',
+  'optimization.optimize': 'Route optimieren',
+  'optimization.hint': 'Füge mindestens 2 Ziele hinzu, um deine Route zu optimieren',
+  'optimization.locationNotFound.title': 'Ort nicht gefunden',
+  'optimization.addError.title': 'Fehler beim Hinzufügen des Wegpunkts',
+  'optimization.imported.title': 'Stopps importiert',
+  'optimization.imported.description': '{count, plural, one {# Ziel} other {# Ziele}} hinzugefügt.',
+  'optimization.needMore.title': 'Mehr Wegpunkte nötig',
+  'optimization.needMore.description': 'Füge mindestens 2 Ziele hinzu, um zu optimieren.',
+  'optimization.tooManyWindows.title': 'Zu viele Stopps für Zeitfenster',
+  'optimization.tooManyWindows.description': 'Zeitfenster funktionieren mit bis zu {max, number} Zielen.',
+  'optimization.noWindowOrder.title': 'Keine Reihenfolge passt in die Zeitfenster',
+  'optimization.noWindowOrder.description': 'Erweitere ein Zeitfenster oder entferne einen Stopp und versuche es erneut.',
+  'optimization.optimized.title': 'Route optimiert! 🎯',
+  'optimization.optimized.description': 'Spart {duration} gegenüber deiner ursprünglichen Reihenfolge.',
+  'optimization.alreadyOptimal.title': 'Aktuelle Reihenfolge ist bereits optimal',
+  'optimization.failed.title': 'Optimierung fehlgeschlagen',
+
+  'constraints.title': 'Aufenthaltsdauer und Zeitfenster',
+  'constraints.serviceTime': 'Aufenthalt am Stopp (Minuten)',
+  'constraints.window': 'Erreichbar zwischen',
+
+  'import.title': 'Stopps importieren',
+  'import.description': 'CSV mit Adressen oder Koordinaten, GeoJSON-Punkte oder GPX-Wegpunkte',
+  'import.noStops': 'In der Datei wurden keine Stopps gefunden.',
+  'import.unsupportedFile': 'Wähle eine .csv-, .geojson- oder .gpx-Datei.',
+  'import.unreadable': '{file} konnte nicht gelesen werden. Prüfe, ob es eine gültige {format}-Datei ist.',
+  'import.columnsHint': '{count, plural, one {# Zeile} other {# Zeilen}}. Ordne eine Adressspalte, Spalten für Breiten- und Längengrad oder beides zu.',
+  'import.field.name': 'Name',
+  'import.field.address': 'Adresse',
+  'import.field.latitude': 'Breitengrad',
+  'import.field.longitude': 'Längengrad',
+  'import.notUsed': 'Nicht verwendet',
+  'import.column': 'Spalte {number}',
+  'import.resolving': 'Adressen werden gesucht...',
+  'import.ready': '{ready, number} von {total, plural, one {# Stopp} other {# Stopps}} bereit zum Hinzufügen.',
+  'import.rowError': 'Zeile {line} ({name}): {error}',
+  'import.continue': 'Weiter',
+  'import.chooseAnother': 'Andere Datei wählen',
+  'import.add': '{count, plural, one {# Stopp} other {# Stopps}} hinzufügen',
+  'import.defaultName.row': 'Zeile {number}',
+  'import.defaultName.point': 'Punkt {number}',
+  'import.defaultName.waypoint': 'Wegpunkt {number}',
+  'import.error.outOfRange': 'Koordinaten liegen außerhalb des gültigen Bereichs',
+  'import.error.noLocation': 'Keine Adresse oder Koordinaten',
+  'import.error.notFound': 'Adresse nicht gefunden',
+  'import.error.geocodingFailed': 'Geokodierung fehlgeschlagen',
+
+  'export.title': 'Route exportieren',
+
+  'preferences.title': 'Routeneinstellungen',
+  'preferences.avoid': 'Meiden',
+  'preferences.unsupported': 'Ausgegraute Einstellungen gelten nicht für das Verkehrsmittel {profile}.',
+
+  'savedPlaces.home': 'Zuhause',
+  'savedPlaces.work': 'Arbeit',
+  'savedPlaces.other': 'Sonstiges',
+  'savedPlaces.save': 'Ort speichern',
+  'savedPlaces.label': 'Bezeichnung',
+  'savedPlaces.remove': '{label} entfernen',
+  'savedPlaces.pickOnMap': 'Ort zum Speichern auf der Karte wählen',
+
+  'offline.title': 'Offline-Karten',
+  'offline.description': 'Heruntergeladene Gebiete halten die Karte auch ohne Empfang sichtbar.',
+  'offline.drawHint': 'Ziehe auf der Karte, um ein Gebiet auszuwählen.',
+  'offline.areaName': 'Name des Gebiets',
+  'offline.defaultAreaName': 'Gebiet {number}',
+  'offline.detail': 'Detailgrad',
+  'offline.zoom.12': 'Hauptstraßen',
+  'offline.zoom.14': 'Straßen',
+  'offline.zoom.16': 'Alle Details',
+  'offline.zoom': 'Zoomstufe {zoom}',
+  'offline.estimate': '{tiles, plural, one {# Kachel} other {# Kacheln}}, etwa {size}',
+  'offline.tooLarge': 'Dieses Gebiet ist zu groß. Zeichne ein kleineres Gebiet oder wähle weniger Details.',
+  'offline.empty': 'Noch keine Gebiete heruntergeladen.',
+  'offline.showOnMap': 'Auf der Karte zeigen',
+  'offline.usage': 'Diese Seite nutzt {used} von {quota}, die auf diesem Gerät verfügbar sind.',
+  'offline.redraw': 'Neu zeichnen',
+  'offline.download': 'Herunterladen',
+  'offline.draw': 'Gebiet zeichnen',
+  'offline.downloaded.title': 'Karte heruntergeladen',
+  'offline.downloaded.description': '{size} für die Offline-Nutzung gespeichert.',
+  'offline.failed.title': 'Download fehlgeschlagen',
+  'offline.failed.description': 'Das Kartengebiet konnte nicht heruntergeladen werden. Prüfe deine Verbindung und versuche es erneut.',
+
+  'token.label': 'Mapbox-Zugriffstoken',
+  'token.remember': 'Auf diesem Gerät merken',
+  'token.checking': 'Token wird geprüft...',
+  'token.unreachable': 'Mapbox war zum Prüfen des Tokens nicht erreichbar. Prüfe deine Verbindung und versuche es erneut.',
+  'token.error.secret': 'Das ist ein geheimes Token (sk.). Geheime Tokens gewähren vollen Zugriff auf dein Mapbox-Konto und dürfen nicht im Browser verwendet werden. Verwende stattdessen ein öffentliches Token (pk.).',
+  'token.error.expired': 'Dieses Token ist abgelaufen.',
+  'token.error.revoked': 'Dieses Token wurde widerrufen.',
+  'token.error.malformed': 'Das sieht nicht wie ein Mapbox-Token aus.',
+  'token.error.invalid': 'Mapbox hat dieses Token nicht akzeptiert.',
+
+  'welcome.title': 'Smart Traffic Monitor',
+  'welcome.description': 'Gib dein Mapbox-Zugriffstoken ein, um den Verkehr zu beobachten und Routenvorschläge zu erhalten',
+  'welcome.rejected': 'Mapbox akzeptiert das gespeicherte Token nicht mehr. Es ist vielleicht abgelaufen oder wurde widerrufen. Gib ein neues ein, um fortzufahren.',
+  'welcome.submit': 'Loslegen',
+  'welcome.howTo': 'So bekommst du dein Token:',
+  'welcome.createAccount': 'Erstelle ein kostenloses Konto auf',
+  'welcome.openAccount': 'Öffne deine Kontoseite',
+  'welcome.copyToken': 'Kopiere dein öffentliches Zugriffstoken (es beginnt mit pk.)',
+
+  'history.title': 'Fahrtenverlauf',
+  'history.keep': 'Letzte Ziele und Fahrten behalten',
+  'history.off': 'Aus',
+  'history.last': 'Letzte {count, number}',
+  'history.deviceOnly': 'Der Verlauf wird nur auf diesem Gerät gespeichert.',
+  'history.clear': 'Verlauf löschen',
+  'history.empty': 'Abgeschlossene Fahrten erscheinen hier.',
+  'history.from': 'Von {place}{stops, plural, =0 {} one { über # Stopp} other { über # Stopps}}',
+  'history.planAgain': 'Diese Fahrt erneut planen',
+
+  'settings.units': 'Einheiten',
+  'settings.units.metric': 'Metrisch (km)',
+  'settings.units.imperial': 'Imperial (mi)',
+  'settings.units.auto': 'Automatisch: {units}',
+  'settings.units.example': 'Entfernungen werden wie {distance} angezeigt. Gesprochene Anweisungen nutzen dieselben Einheiten.',
+  'settings.token.title': 'Mapbox-Token',
+  'settings.token.configured': 'Es wird das Token dieser App verwendet. Gib dein eigenes ein, um stattdessen dieses zu nutzen.',
+  'settings.token.inUse': 'In Verwendung',
+  'settings.token.remembered': 'Das Token bleibt in diesem Browser, bis du es löschst.',
+  'settings.token.sessionOnly': 'Das Token wird vergessen, wenn diese Browsersitzung endet.',
+  'settings.token.none': 'Es ist kein Token festgelegt.',
+  'settings.token.replace': 'Token ersetzen',
+  'settings.token.save': 'Token speichern',
+  'settings.token.useOwn': 'Eigenes Token verwenden',
+  'settings.token.clear': 'Token löschen',
+
+  'notFound.title': 'Hoppla! Seite nicht gefunden',
+  'notFound.home': 'Zur Startseite',
+};
+
+export default de;
@@ -0,0 +1,245 @@
+// Source catalog: every key the app uses, in ICU MessageFormat. Other
+// languages are checked against these keys.
+
+const en = {
+  'common.backToMap': 'Back to map',
+  'common.cancel': 'Cancel',
+  'common.clear': 'Clear',
+  'common.currentLocation': 'Current location',
+  'common.delete': 'Delete',
+  'common.minutes': '{minutes} min',
+  'common.save': 'Save',
+  'common.settings': 'Settings',
+  'common.tripHistory': 'Trip history',
+  'common.tryAgain': 'Please try again.',
+  'common.tryDifferentLocation': 'Please try a different location.',
+
+  'language.label': 'Language',
+  'language.auto': 'Automatic: {language}',
+  'language.hint': 'Map labels follow the same language wherever the map has names in it.',
+
+  'profile.drivingTraffic': 'Drive (live traffic)',
+  'profile.driving': 'Drive',
+  'profile.walking': 'Walk',
+  'profile.cycling': 'Cycle',
+
+  'exclusion.toll': 'Tolls',
+  'exclusion.motorway': 'Motorways',
+  'exclusion.ferry': 'Ferries',
+  'exclusion.unpaved': 'Unpaved roads',
+
+  'route.number': 'Route {number}',
+  'route.leave': 'Leave {time}',
+  'route.arrive': 'Arrive {time}',
+
+  'timing.now': 'Now',
+  'timing.leaveNow': 'Leave now',
+  'timing.leaveAt': 'Leave at',
+  'timing.arriveBy': 'Arrive by',
+  'timing.leaveAtTime': 'Leave at {time}',
+  'timing.arriveByTime': 'Arrive by {time}',
+  'timing.time': 'Time',
+  'timing.apply': 'Apply',
+
+  'map.arrived.title': 'You have arrived',
+  'map.locationDenied.title': 'Location Access Denied',
+  'map.locationDenied.description': 'Enable location access or enter a start point to get routes.',
+  'map.locationUnavailable.title': 'Location Unavailable',
+  'map.locationUnavailable.navigation': 'Navigation needs access to your location to follow the route.',
+  'map.locationUnavailable.start': 'Allow location access to start from your current position.',
+  'map.fasterRoute.title': 'Faster Route Found',
+  'map.fasterRoute.description': 'Save {duration} by switching to a route with less traffic.',
+  'map.fasterRoute.action': 'Switch',
+  'map.fasterRoute.actionLabel': 'Switch to the faster route',
+  'map.offRoute.title': 'Off Route',
+  'map.offRoute.description': 'Finding a new route from your position...',
+  'map.rerouteFailed.title': 'Reroute Failed',
+  'map.rerouteFailed.description': 'Keep following the original route or try again shortly.',
+  'map.chooseStart.title': 'Choose a Start Point',
+  'map.chooseStart.description': 'Enter a start address, pick one on the map or allow location access.',
+  'map.destinationNotFound.title': 'Destination Not Found',
+  'map.trafficDetected.title': 'Traffic Detected!',
+  'map.trafficDetected.description': 'Route {number} avoids most of the congestion.',
+  'map.routeError.title': 'Route Error',
+  'map.routeError.description': 'Unable to get route. Please try again.',
+  'map.routeError.noRouteWithExclusions': 'No route avoids everything you asked to avoid. Try relaxing your route preferences.',
+  'map.placesNotFound.title': 'Some Places Not Found',
+  'map.placesNotFound.description': "Parts of the shared trip couldn't be located and were left out.",
+  'map.sharedTripError.title': "Couldn't Open Shared Trip",
+  'map.sharedTripError.description': 'Please check the link and try again.',
+  'map.startNotFound.title': 'Start Point Not Found',
+  'map.startError.title': 'Start Point Error',
+  'map.startError.description': 'Unable to find that start point. Please try again.',
+  'map.stopNotFound.title': 'Stop Not Found',
+  'map.addStopError.title': 'Error adding stop',
+  'map.startPlaceholder': 'Start point...',
+  'map.stopPlaceholder': 'Add stop...',
+  'map.useCurrentLocation': 'Use current location',
+  'map.pickStart': 'Pick start point on the map',
+  'map.pickStartHint': 'Click the map to set the start point.',
+  'map.pickPlaceHint': 'Click the map to choose a place to save.',
+  'map.addStops': 'Add stops along the way',
+  'map.swap': 'Swap start and destination',
+  'map.routeOptions': 'Route Options',
+  'map.exportName': '{from} to {to}',
+  'map.fasterRouteMargin': 'Offer faster routes saving at least',
+  'map.startNavigation': 'Start Navigation',
+
+  'search.placeholder': 'Enter destination...',
+
+  'navigation.rerouting': 'Rerouting...',
+  'navigation.waitingForGps': 'Waiting for GPS...',
+  'navigation.locating': 'Locating...',
+  'navigation.end': 'End',
+
+  'optimization.title': 'Route Optimization',
+  'optimization.description': 'Add multiple stops to find the most efficient route order',
+  'optimization.addPlaceholder': 'Add destination...',
+  'optimization.import': 'Import stops from CSV, GeoJSON or GPX',
+  'optimization.destinations': '{count, plural, one {Destination (#)} other {Destinations (#)}}',
+  'optimization.start': 'Start',
+  'optimization.returnToStart': 'Return to start',
+  'optimization.finishAtLast': 'Finish at last destination',
+  'optimization.optimizedOrder': 'Optimized order',
+  'optimization.savings': 'Saves {duration} and {distance} vs your order ({originalDuration} · {originalDistance})',
+  'optimization.alreadyFastest': 'Your original order is already the fastest.',
+  'optimization.backToStart': 'Back to start',
+  'optimization.late': 'Late',
+  'optimization.wait': ', wait {duration}',
+  'optimization.optimizing': 'Optimizing...',
+  'optimization.optimize': 'Optimize Route',
+  'optimization.hint': 'Add 2+ destinations to optimize your route',
+  'optimization.locationNotFound.title': 'Location not found',
+  'optimization.addError.title': 'Error adding waypoint',
+  'optimization.imported.title': 'Stops imported',
+  'optimization.imported.description': 'Added {count, plural, one {# destination} other {# destinations}}.',
+  'optimization.needMore.title': 'Need more waypoints',
+  'optimization.needMore.description': 'Add at least 2 destinations to optimize.',
+  'optimization.tooManyWindows.title': 'Too many stops for time windows',
+  'optimization.tooManyWindows.description': 'Time windows work with up to {max, number} destinations.',
+  'optimization.noWindowOrder.title': 'No order fits the time windows',
+  'optimization.noWindowOrder.description': 'Widen a window or drop a stop and try again.',
+  'optimization.optimized.title': 'Route Optimized! 🎯',
+  'optimization.optimized.description': 'Saves {duration} vs your original order.',
+  'optimization.alreadyOptimal.title': 'Current Order Already Optimal',
+  'optimization.failed.title': 'Optimization failed',
+
+  'constraints.title': 'Service time and time window',
+  'constraints.serviceTime': 'Time at stop (minutes)',
+  'constraints.window': 'Available between',
+
+  'import.title': 'Import stops',
+  'import.description': 'CSV with addresses or coordinates, GeoJSON points or GPX waypoints',
+  'import.noStops': 'No stops found in the file.',
+  'import.unsupportedFile': 'Choose a .csv, .geojson or .gpx file.',
+  'import.unreadable': "Couldn't read {file}. Check that it is a valid {format} file.",
+  'import.columnsHint': '{count, plural, one {# row} other {# rows}}. Map an address column, latitude and longitude columns, or both.',
+  'import.field.name': 'Name',
+  'import.field.address': 'Address',
+  'import.field.latitude': 'Latitude',
+  'import.field.longitude': 'Longitude',
+  'import.notUsed': 'Not used',
+  'import.column': 'Column {number}',
+  'import.resolving': 'Finding addresses...',
+  'import.ready': '{ready, number} of {total, plural, one {# stop} other {# stops}} ready to add.',
+  'import.rowError': 'Row {line} ({name}): {error}',
+  'import.continue': 'Continue',
+  'import.chooseAnother': 'Choose another file',
+  'import.add': 'Add {count, plural, one {# stop} other {# stops}}',
+  'import.defaultName.row': 'Row {number}',
+  'import.defaultName.point': 'Point {number}',
+  'import.defaultName.waypoint': 'Waypoint {number}',
+  'import.error.outOfRange': 'Coordinates are out of range',
+  'import.error.noLocation': 'No address or coordinates',
+  'import.error.notFound': 'Address not found',
+  'import.error.geocodingFailed': 'Geocoding failed',
+
+  'export.title': 'Export route',
+
+  'preferences.title': 'Route preferences',
+  'preferences.avoid': 'Avoid',
+  'preferences.unsupported': "Greyed-out preferences can't be applied to the travel mode {profile}.",
+
+  'savedPlaces.home': 'Home',
+  'savedPlaces.work': 'Work',
+  'savedPlaces.other': 'Other',
+  'savedPlaces.save': 'Save place',
+  'savedPlaces.label': 'Label',
+  'savedPlaces.remove': 'Remove {label}',
+  'savedPlaces.pickOnMap': 'Pick a place to save on the map',
+
+  'offline.title': 'Offline maps',
+  'offline.description': 'Downloaded areas keep the map drawing where there is no signal.',
+  'offline.drawHint': 'Drag on the map to select an area.',
+  'offline.areaName': 'Area name',
+  'offline.defaultAreaName': 'Area {number}',
+  'offline.detail': 'Detail',
+  'offline.zoom.12': 'Main roads',
+  'offline.zoom.14': 'Streets',
+  'offline.zoom.16': 'Full detail',
+  'offline.zoom': 'Zoom {zoom}',
+  'offline.estimate': '{tiles, plural, one {# tile} other {# tiles}}, about {size}',
+  'offline.tooLarge': 'This area is too large. Draw a smaller area or choose less detail.',
+  'offline.empty': 'No areas downloaded yet.',
+  'offline.showOnMap': 'Show on map',
+  'offline.usage': 'This site is using {used} of {quota} available on this device.',
+  'offline.redraw': 'Redraw',
+  'offline.download': 'Download',
+  'offline.draw': 'Draw area',
+  'offline.downloaded.title': 'Map Downloaded',
+  'offline.downloaded.description': '{size} saved for offline use.',
+  'offline.failed.title': 'Download Failed',
+  'offline.failed.description': 'The map area could not be downloaded. Check your connection and try again.',
+
+  'token.label': 'Mapbox Access Token',
+  'token.remember': 'Remember on this device',
+  'token.checking': 'Checking token...',
+  'token.unreachable': "Couldn't reach Mapbox to check the token. Check your connection and try again.",
+  'token.error.secret': 'This is a secret token (sk.). Secret tokens give full access to your Mapbox account and must not be used in a browser. Use a public token (pk.) instead.',
+  'token.error.expired': 'This token has expired.',
+  'token.error.revoked': 'This token has been revoked.',
+  'token.error.malformed': 'This does not look like a Mapbox token.',
+  'token.error.invalid': 'Mapbox did not accept this token.',
+
+  'welcome.title': 'Smart Traffic Monitor',
+  'welcome.description': 'Enter your Mapbox access token to start monitoring traffic and getting route suggestions',
+  'welcome.rejected': 'Mapbox no longer accepts the saved token. It may have expired or been revoked. Enter a new one to continue.',
+  'welcome.submit': 'Start Monitoring',
+  'welcome.howTo': 'How to get your token:',
+  'welcome.createAccount': 'Create a free account at',
+  'welcome.openAccount': 'Go to your Account page',
+  'welcome.copyToken': 'Copy your public access token (it starts with pk.)',
+
+  'history.title': 'Trip History',
+  'history.keep': 'Keep recent destinations and trips',
+  'history.off': 'Off',
+  'history.last': 'Last {count, number}',
+  'history.deviceOnly': 'History is stored on this device only.',
+  'history.clear': 'Clear history',
+  'history.empty': 'Completed trips will appear here.',
+  'history.from': 'From {place}{stops, plural, =0 {} one { via # stop} other { via # stops}}',
+  'history.planAgain': 'Plan this trip again',
+
+  'settings.units': 'Units',
+  'settings.units.metric': 'Metric (km)',
+  'settings.units.imperial': 'Imperial (mi)',
+  'settings.units.auto': 'Automatic: {units}',
+  'settings.units.example': 'Distances read like {distance}. Spoken directions use the same units.',
+  'settings.token.title': 'Mapbox token',
+  'settings.token.configured': 'Using the token provided with this app. Enter your own to use it instead.',
+  'settings.token.inUse': 'In use',
+  'settings.token.remembered': 'The token is kept in this browser until you clear it.',
+  'settings.token.sessionOnly': 'The token is forgotten when this browser session ends.',
+  'settings.token.none': 'No token is set.',
+  'settings.token.replace': 'Replace token',
+  'settings.token.save': 'Save token',
+  'settings.token.useOwn': 'Use my own token',
+  'settings.token.clear': 'Clear token',
+
+  'notFound.title': 'Oops! Page not found',
+  'notFound.home': 'Return to Home',
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
@@ -0,0 +1,242 @@
+import type { MessageKey } from './en';
+
+const es: Record<MessageKey, string> = {
+  'common.backToMap': 'Volver al mapa',
+  'common.cancel': 'Cancelar',
+  'common.clear': 'Borrar',
+  'common.currentLocation': 'Ubicación actual',
+  'common.delete': 'Eliminar',
+  'common.minutes': '{minutes} min',
+  'common.save': 'Guardar',
+  'common.settings': 'Ajustes',
+  'common.tripHistory': 'Historial de viajes',
+  'common.tryAgain': 'Inténtalo de nuevo.',
+  'common.tryDifferentLocation': 'Prueba con otra ubicación.',
+
+  'language.label': 'Idioma',
+  'language.auto': 'Automático: {language}',
+  'language.hint': 'Las etiquetas del mapa usan el mismo idioma siempre que el mapa tenga nombres en él.',
+
+  'profile.drivingTraffic': 'En coche (tráfico en vivo)',
+  'profile.driving': 'En coche',
+  'profile.walking': 'A pie',
+  'profile.cycling': 'En bicicleta',
+
+  'exclusion.toll': 'Peajes',
+  'exclusion.motorway': 'Autopistas',
+  'exclusion.ferry': 'Ferris',
+  'exclusion.unpaved': 'Caminos sin asfaltar',
+
+  'route.number': 'Ruta {number}',
+  'route.leave': 'Salida {time}',
+  'route.arrive': 'Llegada {time}',
+
+  'timing.now': 'Ahora',
+  'timing.leaveNow': 'Salir ahora',
+  'timing.leaveAt': 'Salir a las',
+  'timing.arriveBy': 'Llegar antes de',
+  'timing.leaveAtTime': 'Salir: {time}',
+  'timing.arriveByTime': 'Llegar antes de: {time}',
+  'timing.time': 'Hora',
+  'timing.apply': 'Aplicar',
+
+  'map.arrived.title': 'Has llegado',
+  'map.locationDenied.title': 'Acceso a la ubicación denegado',
+  'map.locationDenied.description': 'Permite el acceso a la ubicación o introduce un punto de partida para obtener rutas.',
+  'map.locationUnavailable.title': 'Ubicación no disponible',
+  'map.locationUnavailable.navigation': 'La navegación necesita acceder a tu ubicación para seguir la ruta.',
+  'map.locationUnavailable.start': 'Permite el acceso a la ubicación para salir desde tu posición actual.',
+  'map.fasterRoute.title': 'Ruta más rápida encontrada',
+  'map.fasterRoute.description': 'Ahorra {duration} cambiando a una ruta con menos tráfico.',
+  'map.fasterRoute.action': 'Cambiar',
+  'map.fasterRoute.actionLabel': 'Cambiar a la ruta más rápida',
+  'map.offRoute.title': 'Fuera de la ruta',
+  'map.offRoute.description': 'Buscando una nueva ruta desde tu posición...',
+  'map.rerouteFailed.title': 'No se pudo recalcular la ruta',
+  'map.rerouteFailed.description': 'Sigue la ruta original o vuelve a intentarlo en un momento.',
+  'map.chooseStart.title': 'Elige un punto de partida',
+  'map.chooseStart.description': 'Introduce una dirección de salida, elige una en el mapa o permite el acceso a la ubicación.',
+  'map.destinationNotFound.title': 'Destino no encontrado',
+  'map.trafficDetected.title': '¡Tráfico detectado!',
+  'map.trafficDetected.description': 'La ruta {number} evita la mayor parte de los atascos.',
+  'map.routeError.title': 'Error de ruta',
+  'map.routeError.description': 'No se pudo obtener la ruta. Inténtalo de nuevo.',
+  'map.routeError.noRouteWithExclusions': 'Ninguna ruta evita todo lo que pediste evitar. Prueba a relajar tus preferencias de ruta.',
+  'map.placesNotFound.title': 'Algunos lugares no se encontraron',
+  'map.placesNotFound.description': 'Partes del viaje compartido no se pudieron localizar y se omitieron.',
+  'map.sharedTripError.title': 'No se pudo abrir el viaje compartido',
+  'map.sharedTripError.description': 'Comprueba el enlace e inténtalo de nuevo.',
+  'map.startNotFound.title': 'Punto de partida no encontrado',
+  'map.startError.title': 'Error en el punto de partida',
+  'map.startError.description': 'No se pudo encontrar ese punto de partida. Inténtalo de nuevo.',
+  'map.stopNotFound.title': 'Parada no encontrada',
+  'map.addStopError.title': 'Error al añadir la parada',
+  'map.startPlaceholder': 'Punto de partida...',
+  'map.stopPlaceholder': 'Añadir parada...',
+  'map.useCurrentLocation': 'Usar ubicación actual',
+  'map.pickStart': 'Elegir el punto de partida en el mapa',
+  'map.pickStartHint': 'Haz clic en el mapa para fijar el punto de partida.',
+  'map.pickPlaceHint': 'Haz clic en el mapa para elegir un lugar que guardar.',
+  'map.addStops': 'Añadir paradas en el camino',
+  'map.swap': 'Intercambiar salida y destino',
+  'map.routeOptions': 'Opciones de ruta',
+  'map.exportName': '{from} a {to}',
+  'map.fasterRouteMargin': 'Ofrecer rutas más rápidas que ahorren al menos',
+  'map.startNavigation': 'Iniciar navegación',
+
+  'search.placeholder': 'Introduce un destino...',
+
+  'navigation.rerouting': 'Recalculando la ruta...',
+  'navigation.waitingForGps': 'Esperando al GPS...',
+  'navigation.locating': 'Localizando...',
+  'navigation.end': 'Terminar',
+
+  'optimization.title': 'Optimización de ruta',
+  'optimization.description': 'Añade varias paradas para encontrar el orden de ruta más eficiente',
+  'optimization.addPlaceholder': 'Añadir destino...',
+  'optimization.import': 'Importar paradas desde CSV, GeoJSON o GPX',
+  'optimization.destinations': '{count, plural, one {Destino (#)} other {Destinos (#)}}',
+  'optimization.start': 'Salida',
+  'optimization.returnToStart': 'Volver al punto de partida',
+  'optimization.finishAtLast': 'Terminar en el último destino',
+  'optimization.optimizedOrder': 'Orden optimizado',
+  'optimization.savings': 'Ahorra {duration} y {distance} frente a tu orden ({originalDuration} · {originalDistance})',
+  'optimization.alreadyFastest': 'Tu orden original ya es el más rápido.',
+  'optimization.backToStart': 'Vuelta a la salida',
+  'optimization.late': 'Tarde',
+  'optimization.wait': ', espera {duration}',
+  'optimization.optimizing': 'Optimizando...',
+  'optimization.optimize': 'Optimizar ruta',
+  'optimization.hint': 'Añade 2 o más destinos para optimizar tu ruta',
+  'optimization.locationNotFound.title': 'Ubicación no encontrada',
+  'optimization.addError.title': 'Error al añadir el punto de paso',
+  'optimization.imported.title': 'Paradas importadas',
+  'optimization.imported.description': '{count, plural, one {Se añadió # destino} other {Se añadieron # destinos}}.',
+  'optimization.needMore.title': 'Faltan puntos de paso',
+  'optimization.needMore.description': 'Añade al menos 2 destinos para optimizar.',
+  'optimization.tooManyWindows.title': 'Demasiadas paradas para franjas horarias',
+  'optimization.tooManyWindows.description': 'Las franjas horarias funcionan con hasta {max, number} destinos.',
+  'optimization.noWindowOrder.title': 'Ningún orden cumple las franjas horarias',
+  'optimization.noWindowOrder.description': 'Amplía una franja o quita una parada e inténtalo de nuevo.',
+  'optimization.optimized.title': '¡Ruta optimizada! 🎯',
+  'optimization.optimized.description': 'Ahorra {duration} frente a tu orden original.',
+  'optimization.alreadyOptimal.title': 'El orden actual ya es óptimo',
+  'optimization.failed.title': 'La optimización falló',
+
+  'constraints.title': 'Tiempo de servicio y franja horaria',
+  'constraints.serviceTime': 'Tiempo en la parada (minutos)',
+  'constraints.window': 'Disponible entre',
+
+  'import.title': 'Importar paradas',
+  'import.description': 'CSV con direcciones o coordenadas, puntos GeoJSON o waypoints GPX',
+  'import.noStops': 'No se encontraron paradas en el archivo.',
+  'import.unsupportedFile': 'Elige un archivo .csv, .geojson o .gpx.',
+  'import.unreadable': 'No se pudo leer {file}. Comprueba que sea un archivo {format} válido.',
+  'import.columnsHint': '{count, plural, one {# fila} other {# filas}}. Asigna una columna de dirección, columnas de latitud y longitud, o ambas.',
+  'import.field.name': 'Nombre',
+  'import.field.address': 'Dirección',
+  'import.field.latitude': 'Latitud',
+  'import.field.longitude': 'Longitud',
+  'import.notUsed': 'Sin usar',
+  'import.column': 'Columna {number}',
+  'import.resolving': 'Buscando direcciones...',
+  'import.ready': '{ready, number} de {total, plural, one {# parada lista} other {# paradas listas}} para añadir.',
+  'import.rowError': 'Fila {line} ({name}): {error}',
+  'import.continue': 'Continuar',
+  'import.chooseAnother': 'Elegir otro archivo',
+  'import.add': 'Añadir {count, plural, one {# parada} other {# paradas}}',
+  'import.defaultName.row': 'Fila {number}',
+  'import.defaultName.point': 'Punto {number}',
+  'import.defaultName.waypoint': 'Punto de paso {number}',
+  'import.error.outOfRange': 'Las coordenadas están fuera de rango',
+  'import.error.noLocation': 'Sin dirección ni coordenadas',
+  'import.error.notFound': 'Dirección no encontrada',
+  'import.error.geocodingFailed': 'La geocodificación falló',
+
+  'export.title': 'Exportar ruta',
+
+  'preferences.title': 'Preferencias de ruta',
+  'preferences.avoid': 'Evitar',
+  'preferences.unsupported': 'Las preferencias en gris no se pueden aplicar al modo de viaje {profile}.',
+
+  'savedPlaces.home': 'Casa',
+  'savedPlaces.work': 'Trabajo',
+  'savedPlaces.other': 'Otro',
+  'savedPlaces.save': 'Guardar lugar',
+  'savedPlaces.label': 'Etiqueta',
+  'savedPlaces.remove': 'Quitar {label}',
+  'savedPlaces.pickOnMap': 'Elige en el mapa un lugar que guardar',
+
+  'offline.title': 'Mapas sin conexión',
+  'offline.description': 'Las zonas descargadas mantienen el mapa visible donde no hay cobertura.',
+  'offline.drawHint': 'Arrastra sobre el mapa para seleccionar una zona.',
+  'offline.areaName': 'Nombre de la zona',
+  'offline.defaultAreaName': 'Zona {number}',
+  'offline.detail': 'Detalle',
+  'offline.zoom.12': 'Carreteras principales',
+  'offline.zoom.14': 'Calles',
+  'offline.zoom.16': 'Detalle completo',
+  'offline.zoom': 'Zoom {zoom}',
+  'offline.estimate': '{tiles, plural, one {# tesela} other {# teselas}}, unos {size}',
+  'offline.tooLarge': 'Esta zona es demasiado grande. Dibuja una zona más pequeña o elige menos detalle.',
+  'offline.empty': 'Todavía no hay zonas descargadas.',
+  'offline.showOnMap': 'Mostrar en el mapa',
+  'offline.usage': 'Este sitio usa {used} de {quota} disponibles en este dispositivo.',
+  'offline.redraw': 'Volver a dibujar',
+  'offline.download': 'Descargar',
+  'offline.draw': 'Dibujar zona',
+  'offline.downloaded.title': 'Mapa descargado',
+  'offline.downloaded.description': '{size} guardados para usar sin conexión.',
+  'offline.failed.title': 'La descarga falló',
+  'offline.failed.description': 'No se pudo descargar la zona del mapa. Comprueba tu conexión e inténtalo de nuevo.',
+
+  'token.label': 'Token de acceso de Mapbox',
+  'token.remember': 'Recordar en este dispositivo',
+  'token.checking': 'Comprobando el token...',
+  'token.unreachable': 'No se pudo contactar con Mapbox para comprobar el token. Comprueba tu conexión e inténtalo de nuevo.',
+  'token.error.secret': 'Este es un token secreto (sk.). Los tokens secretos dan acceso completo a tu cuenta de Mapbox y no deben usarse en un navegador. Usa un token público (pk.).',
+  'token.error.expired': 'Este token ha caducado.',
+  'token.error.revoked': 'Este token ha sido revocado.',
+  'token.error.malformed': 'Esto no parece un token de Mapbox.',
+  'token.error.invalid': 'Mapbox no aceptó este token.',
+
+  'welcome.title': 'Smart Traffic Monitor',
+  'welcome.description': 'Introduce tu token de acceso de Mapbox para empezar a vigilar el tráfico y recibir sugerencias de ruta',
+  'welcome.rejected': 'Mapbox ya no acepta el token guardado. Puede haber caducado o haber sido revocado. Introduce uno nuevo para continuar.',
+  'welcome.submit': 'Empezar',
+  'welcome.howTo': 'Cómo obtener tu token:',
+  'welcome.createAccount': 'Crea una cuenta gratuita en',
+  'welcome.openAccount': 'Ve a la página de tu cuenta',
+  'welcome.copyToken': 'Copia tu token de acceso público (empieza por pk.)',
+
+  'history.title': 'Historial de viajes',
+  'history.keep': 'Guardar destinos y viajes recientes',
+  'history.off': 'Desactivado',
+  'history.last': 'Últimos {count, number}',
+  'history.deviceOnly': 'El historial solo se guarda en este dispositivo.',
+  'history.clear': 'Borrar historial',
+  'history.empty': 'Los viajes completados aparecerán aquí.',
+  'history.from': 'Desde {place}{stops, plural, =0 {} one { con # parada} other { con # paradas}}',
+  'history.planAgain': 'Planificar este viaje de nuevo',
+
+  'settings.units': 'Unidades',
+  'settings.units.metric': 'Métrico (km)',
+  'settings.units.imperial': 'Imperial (mi)',
+  'settings.units.auto': 'Automático: {units}',
+  'settings.units.example': 'Las distancias se muestran como {distance}. Las indicaciones habladas usan las mismas unidades.',
+  'settings.token.title': 'Token de Mapbox',
+  'settings.token.configured': 'Se usa el token incluido con esta aplicación. Introduce el tuyo para usarlo en su lugar.',
+  'settings.token.inUse': 'En uso',
+  'settings.token.remembered': 'El token se guarda en este navegador hasta que lo borres.',
+  'settings.token.sessionOnly': 'El token se olvida cuando termina esta sesión del navegador.',
+  'settings.token.none': 'No hay ningún token configurado.',
+  'settings.token.replace': 'Reemplazar token',
+  'settings.token.save': 'Guardar token',
+  'settings.token.useOwn': 'Usar mi propio token',
+  'settings.token.clear': 'Borrar token',
+
+  'notFound.title': '¡Vaya! Página no encontrada',
+  'notFound.home': 'Volver al inicio',
+};
+
+export default es;
@@ -0,0 +1,35 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLocalStore } from './local-store';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  localStorage.clear();
+});
+
+describe('createLocalStore', () => {
+  it('reads back what was written and notifies subscribers', () => {
+    const store = createLocalStore('test-store', 1);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.write(2);
+
+    expect(store.read()).toBe(2);
+    expect(localStorage.getItem('test-store')).toBe('2');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the value for this page when storage refuses the write', () => {
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const store = createLocalStore('full-store', 'a');
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    expect(() => store.write('b')).not.toThrow();
+    expect(store.read()).toBe('b');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
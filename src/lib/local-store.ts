@@ -0,0 +1,49 @@
+/**
+ * A JSON value in localStorage that several components read and write. Unlike
+ * `useLocalStorage`, which keeps a copy per component, every subscriber sees
+ * each write, including ones made in other tabs. Pair with
+ * `useSyncExternalStore(store.subscribe, store.read)`.
+ */
+export function createLocalStore<T>(key: string, fallback: T) {
+  const listeners = new Set<() => void>();
+  let cache: T | undefined;
+
+  const read = (): T => {
+    if (cache !== undefined) return cache;
+    try {
+      const stored = localStorage.getItem(key);
+      cache = stored === null ? fallback : (JSON.parse(stored) as T);
+    } catch {
+      cache = fallback;
+    }
+    return cache;
+  };
+
+  const write = (value: T) => {
+    cache = value;
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Storage can be full or unavailable in private windows; the value
+      // still holds for this page
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key) return;
+      cache = undefined;
+      listener();
+    };
+
+    listeners.add(listener);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      listeners.delete(listener);
+      window.removeEventListener('storage', handleStorage);
+    };
+  };
+
+  return { read, write, subscribe };
+}
@@ -0,0 +1,126 @@
+import type mapboxgl from 'mapbox-gl';
+import type { ExpressionSpecification } from 'mapbox-gl';
+import type { Feature, LineString } from 'geojson';
+import type { Language } from '@/lib/i18n';
+import type { CongestionLevel, DirectionsProfile } from '@/lib/mapbox';
+import { PROFILES } from '@/lib/profiles';
+import type { RouteData } from '@/lib/routes';
+
+/**
+ * Resolves an HSL design token from index.css (e.g. `--traffic-free`) into a
+ * color string Mapbox GL can parse, since paint properties can't read CSS
+ * variables.
+ */
+export function themeColor(token: string): string {
+  const value = getComputedStyle(document.documentElement).getPropertyValue(token).trim();
+  const [hsl, alpha] = value.split('/').map((part) => part.trim());
+  const [h, s, l] = hsl.split(/\s+/);
+  return alpha ? `hsla(${h}, ${s}, ${l}, ${alpha})` : `hsl(${h}, ${s}, ${l})`;
+}
+
+// Same mapping as the live traffic layer: low is free flow, severe is a jam
+const CONGESTION_TOKENS: Record<CongestionLevel, string> = {
+  unknown: '--traffic-free',
+  low: '--traffic-free',
+  moderate: '--traffic-light',
+  heavy: '--traffic-moderate',
+  severe: '--traffic-heavy',
+};
+
+export function congestionColorExpression(): ExpressionSpecification {
+  return [
+    'match',
+    ['get', 'congestion'],
+    'low', themeColor(CONGESTION_TOKENS.low),
+    'moderate', themeColor(CONGESTION_TOKENS.moderate),
+    'heavy', themeColor(CONGESTION_TOKENS.heavy),
+    'severe', themeColor(CONGESTION_TOKENS.severe),
+    themeColor(CONGESTION_TOKENS.unknown),
+  ];
+}
+
+/** Congestion colouring where live traffic exists, the primary color otherwise */
+export function routeLineColor(profile: DirectionsProfile): string | ExpressionSpecification {
+  return PROFILES[profile].hasTraffic ? congestionColorExpression() : themeColor('--primary');
+}
+
+/** Walking routes are dashed so they read as footpaths rather than roads */
+export function routeLineDasharray(profile: DirectionsProfile): number[] | undefined {
+  return profile === 'mapbox/walking' ? [1, 2] : undefined;
+}
+
+export interface RouteSegmentProperties {
+  routeIndex: number;
+  congestion: CongestionLevel;
+}
+
+/**
+ * Splits a route line into runs of consecutive segments that share the same
+ * congestion annotation. Routes without annotations come back as one
+ * `unknown` run.
+ */
+export function congestionSegments(
+  route: RouteData,
+  routeIndex: number
+): Feature<LineString, RouteSegmentProperties>[] {
+  const coordinates = route.geometry.coordinates;
+  const features: Feature<LineString, RouteSegmentProperties>[] = [];
+  let runStart = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const level = route.congestion[i - 1] ?? 'unknown';
+    const nextLevel = route.congestion[i] ?? 'unknown';
+
+    if (i === coordinates.length - 1 || level !== nextLevel) {
+      features.push({
+        type: 'Feature',
+        properties: { routeIndex, congestion: level },
+        geometry: { type: 'LineString', coordinates: coordinates.slice(runStart, i + 1) },
+      });
+      runStart = i;
+    }
+  }
+
+  return features;
+}
+
+// `name`, or a Streets v8 translation of it such as `name_en` or `name_zh-Hans`
+const NAME_FIELD = /^name(_[a-z]{2}(-[A-Za-z]+)?)?$/;
+
+const isNameLookup = (value: unknown): boolean =>
+  Array.isArray(value) && value.length === 2 && value[0] === 'get' && NAME_FIELD.test(String(value[1]));
+
+/** The name in `language` where the feature has one, the local name otherwise */
+const localizedName = (language: Language): ExpressionSpecification =>
+  ['coalesce', ['get', `name_${language}`], ['get', 'name']];
+
+function localizeTextField(value: unknown, language: Language): unknown {
+  if (typeof value === 'string') {
+    return /^\{name(_[a-z]{2}(-[A-Za-z]+)?)?\}$/.test(value) ? localizedName(language) : value;
+  }
+  if (!Array.isArray(value)) return value;
+  // A fallback written here before, or by the style itself, is swapped whole
+  // rather than nested inside another one
+  if (isNameLookup(value)) return localizedName(language);
+  if (value[0] === 'coalesce' && value.length === 3 && isNameLookup(value[1]) && isNameLookup(value[2])) {
+    return localizedName(language);
+  }
+  return value.map((item) => localizeTextField(item, language));
+}
+
+/**
+ * Points the style's place, road and POI labels at the names in `language`,
+ * falling back to the local name for features without a translation. Safe
+ * to call again on each language switch.
+ */
+export function localizeMapLabels(map: mapboxgl.Map, language: Language) {
+  map.getStyle()?.layers.forEach((layer) => {
+    if (layer.type !== 'symbol') return;
+    const textField = map.getLayoutProperty(layer.id, 'text-field');
+    if (textField === undefined) return;
+    const localized = localizeTextField(textField, language);
+    if (JSON.stringify(localized) !== JSON.stringify(textField)) {
+      map.setLayoutProperty(layer.id, 'text-field', localized as ExpressionSpecification);
+    }
+  });
+}
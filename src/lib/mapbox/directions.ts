@@ -0,0 +1,79 @@
+import { formatCoordinates, mapboxFetch } from './http';
+import type { Coordinates, DirectionsProfile, DirectionsResponse, RoadExclusion } from './types';
+
+export interface DirectionsOptions {
+  profile?: DirectionsProfile;
+  alternatives?: boolean;
+  annotations?: ('congestion' | 'distance' | 'duration')[];
+  /** Turn-by-turn steps, with banner and voice instructions for navigation */
+  steps?: boolean;
+  /** Predictive traffic for a future departure (driving profiles only) */
+  departAt?: Date;
+  /** Latest arrival time; Mapbox only supports this on `mapbox/driving` */
+  arriveBy?: Date;
+  exclude?: RoadExclusion[];
+  /** Language for instructions; unsupported languages fall back to English */
+  language?: string;
+  /** Units spoken in voice instructions */
+  voiceUnits?: 'metric' | 'imperial';
+  signal?: AbortSignal;
+}
+
+// Languages Directions writes instructions in
+const INSTRUCTION_LANGUAGES = [
+  'ar', 'da', 'de', 'en', 'eo', 'es', 'es-ES', 'fi', 'fr', 'he', 'hu', 'id', 'it', 'ja', 'ko', 'my',
+  'nl', 'no', 'pl', 'pt-BR', 'pt-PT', 'ro', 'ru', 'sl', 'sv', 'tr', 'uk', 'vi', 'yo', 'zh-Hans',
+];
+
+// Languages Directions only knows by a regional or script variant
+const LANGUAGE_VARIANTS: Record<string, string> = { pt: 'pt-BR', zh: 'zh-Hans', nb: 'no' };
+
+/** The closest instruction language to a locale tag such as `de-AT`, if there is one */
+function instructionLanguage(locale: string): string | undefined {
+  if (INSTRUCTION_LANGUAGES.includes(locale)) return locale;
+  const language = locale.split('-')[0].toLowerCase();
+  if (INSTRUCTION_LANGUAGES.includes(language)) return language;
+  return LANGUAGE_VARIANTS[language];
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Directions expects times as local `YYYY-MM-DDThh:mm` at the origin */
+export function formatDirectionsTime(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+    + `T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function getDirections(coordinates: Coordinates[], options: DirectionsOptions = {}) {
+  const {
+    profile = 'mapbox/driving-traffic',
+    alternatives = false,
+    annotations,
+    steps = false,
+    departAt,
+    arriveBy,
+    exclude,
+    language,
+    voiceUnits,
+    signal,
+  } = options;
+
+  return mapboxFetch<DirectionsResponse>(
+    `/directions/v5/${profile}/${formatCoordinates(coordinates)}`,
+    {
+      alternatives,
+      annotations: annotations?.join(','),
+      overview: 'full',
+      geometries: 'geojson',
+      steps,
+      banner_instructions: steps || undefined,
+      voice_instructions: steps || undefined,
+      depart_at: departAt && formatDirectionsTime(departAt),
+      arrive_by: arriveBy && formatDirectionsTime(arriveBy),
+      exclude: exclude?.length ? exclude.join(',') : undefined,
+      language: language && instructionLanguage(language),
+      voice_units: steps ? voiceUnits : undefined,
+    },
+    signal
+  );
+}
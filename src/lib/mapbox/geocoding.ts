@@ -0,0 +1,39 @@
+import { mapboxFetch } from './http';
+import type { Coordinates, GeocodingResponse } from './types';
+
+export interface GeocodeOptions {
+  limit?: number;
+  types?: string[];
+  /** Language for place names, as an IETF tag such as `de` */
+  language?: string;
+  signal?: AbortSignal;
+}
+
+export function forwardGeocode(query: string, options: GeocodeOptions = {}) {
+  const { limit = 1, types, language, signal } = options;
+
+  return mapboxFetch<GeocodingResponse>(
+    `/geocoding/v5/mapbox.places/${encodeURIComponent(query)}.json`,
+    {
+      limit,
+      types: types?.join(','),
+      language,
+    },
+    signal
+  );
+}
+
+export function reverseGeocode(coordinates: Coordinates, options: GeocodeOptions = {}) {
+  const { limit = 1, types, language, signal } = options;
+  const [lng, lat] = coordinates;
+
+  return mapboxFetch<GeocodingResponse>(
+    `/geocoding/v5/mapbox.places/${lng},${lat}.json`,
+    {
+      limit,
+      types: types?.join(','),
+      language,
+    },
+    signal
+  );
+}
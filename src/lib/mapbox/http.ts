@@ -0,0 +1,75 @@
+import { getAccessToken, handleUnauthorized } from './token';
+
+export const MAPBOX_API_URL = 'https://api.mapbox.com';
+
+export type QueryParams = Record<string, string | number | boolean | undefined>;
+
+export class MapboxApiError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(message: string, status: number, code?: string) {
+    super(message);
+    this.name = 'MapboxApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export function buildUrl(path: string, params: QueryParams = {}): string {
+  const token = getAccessToken();
+  if (!token) {
+    throw new MapboxApiError('Mapbox access token is not set', 401);
+  }
+
+  const url = new URL(path, MAPBOX_API_URL);
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) url.searchParams.set(key, String(value));
+  });
+  url.searchParams.set('access_token', token);
+  return url.toString();
+}
+
+/**
+ * Performs a GET against the Mapbox API and returns the parsed body. Non-2xx
+ * responses and bodies carrying a non-"Ok" `code` are raised as MapboxApiError
+ * with the service's own message when it provides one. A 401 also retires the
+ * token, which sends the user back to the token form.
+ */
+export async function mapboxFetch<T>(
+  path: string,
+  params?: QueryParams,
+  signal?: AbortSignal
+): Promise<T> {
+  const token = getAccessToken();
+  const response = await fetch(buildUrl(path, params), { signal });
+
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Some error responses have an empty or non-JSON body
+  }
+
+  const { message, code } = (body ?? {}) as { message?: string; code?: string };
+
+  if (response.status === 401) handleUnauthorized(token);
+
+  if (!response.ok) {
+    throw new MapboxApiError(
+      message || `Mapbox request failed with status ${response.status}`,
+      response.status,
+      code
+    );
+  }
+
+  if (code && code !== 'Ok') {
+    throw new MapboxApiError(message || code, response.status, code);
+  }
+
+  return body as T;
+}
+
+export function formatCoordinates(coordinates: [number, number][]): string {
+  return coordinates.map(([lng, lat]) => `${lng},${lat}`).join(';');
+}
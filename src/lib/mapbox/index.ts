@@ -0,0 +1,17 @@
+export * from './types';
+export {
+  setAccessToken,
+  setConfiguredAccessToken,
+  getAccessToken,
+  getTokenState,
+  subscribeToAccessToken,
+  isSecretToken,
+  handleUnauthorized,
+  type TokenState,
+} from './token';
+export { validateAccessToken, type TokenRejection, type TokenValidation } from './tokens';
+export { MapboxApiError, buildUrl, mapboxFetch } from './http';
+export { forwardGeocode, reverseGeocode, type GeocodeOptions } from './geocoding';
+export { getDirections, formatDirectionsTime, type DirectionsOptions } from './directions';
+export { getOptimizedTrip, type OptimizationOptions } from './optimization';
+export { getMatrix, type MatrixOptions } from './matrix';
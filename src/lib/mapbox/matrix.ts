@@ -0,0 +1,25 @@
+import { formatCoordinates, mapboxFetch } from './http';
+import type { Coordinates, DirectionsProfile, MatrixResponse } from './types';
+
+export interface MatrixOptions {
+  profile?: DirectionsProfile;
+  /** Indices into `coordinates` to use as rows; all of them when omitted */
+  sources?: number[];
+  /** Indices into `coordinates` to use as columns; all of them when omitted */
+  destinations?: number[];
+  signal?: AbortSignal;
+}
+
+export function getMatrix(coordinates: Coordinates[], options: MatrixOptions = {}) {
+  const { profile = 'mapbox/driving-traffic', sources, destinations, signal } = options;
+
+  return mapboxFetch<MatrixResponse>(
+    `/directions-matrix/v1/${profile}/${formatCoordinates(coordinates)}`,
+    {
+      annotations: 'duration',
+      sources: sources ? sources.join(';') : 'all',
+      destinations: destinations ? destinations.join(';') : 'all',
+    },
+    signal
+  );
+}
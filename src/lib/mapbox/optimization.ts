@@ -0,0 +1,32 @@
+import { formatCoordinates, mapboxFetch } from './http';
+import type { Coordinates, DirectionsProfile, OptimizationResponse } from './types';
+
+export interface OptimizationOptions {
+  profile?: DirectionsProfile;
+  source?: 'first' | 'any';
+  destination?: 'last' | 'any';
+  roundtrip?: boolean;
+  signal?: AbortSignal;
+}
+
+export function getOptimizedTrip(coordinates: Coordinates[], options: OptimizationOptions = {}) {
+  const {
+    profile = 'mapbox/driving-traffic',
+    source = 'first',
+    destination = 'last',
+    roundtrip = false,
+    signal,
+  } = options;
+
+  return mapboxFetch<OptimizationResponse>(
+    `/optimized-trips/v1/${profile}/${formatCoordinates(coordinates)}`,
+    {
+      source,
+      destination,
+      roundtrip,
+      overview: 'full',
+      geometries: 'geojson',
+    },
+    signal
+  );
+}
@@ -0,0 +1,107 @@
+// Single source for the access token used by every Mapbox request.
+
+const STORAGE_KEY = 'mapbox_token';
+
+export interface TokenState {
+  token: string | null;
+  /** Whether the token is kept on this device or only for this browser session */
+  remember: boolean;
+  /** The token in use is the deployment's own rather than one the user entered */
+  configured: boolean;
+  /** Set when Mapbox rejected the previous token, so the form can say why it is back */
+  rejected: boolean;
+}
+
+// Deployment token from the app config, used whenever the user hasn't set one
+let configuredToken: string | null = null;
+
+function readStoredToken(): TokenState {
+  try {
+    const remembered = localStorage.getItem(STORAGE_KEY);
+    if (remembered) return { token: remembered, remember: true, configured: false, rejected: false };
+    return { token: sessionStorage.getItem(STORAGE_KEY), remember: false, configured: false, rejected: false };
+  } catch {
+    return { token: null, remember: false, configured: false, rejected: false };
+  }
+}
+
+let state: TokenState = readStoredToken();
+const listeners = new Set<() => void>();
+
+function update(next: TokenState) {
+  state = next;
+  listeners.forEach((listener) => listener());
+}
+
+function writeStorage(token: string | null, remember: boolean) {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+    sessionStorage.removeItem(STORAGE_KEY);
+    if (token) (remember ? localStorage : sessionStorage).setItem(STORAGE_KEY, token);
+  } catch {
+    // Storage can be unavailable in private windows; the token still works for this page
+  }
+}
+
+// With no token of the user's own, the deployment's token takes over
+function fallbackState(remember: boolean, rejected: boolean): TokenState {
+  return { token: configuredToken, remember, configured: !!configuredToken, rejected };
+}
+
+export function getAccessToken(): string | null {
+  return state.token;
+}
+
+/** The current token and where it is kept; pair with `subscribeToAccessToken` */
+export function getTokenState(): TokenState {
+  return state;
+}
+
+export function subscribeToAccessToken(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Uses `token` for every request from now on and stores it in localStorage
+ * when remembered, or sessionStorage otherwise. Passing null clears it from
+ * both, falling back to the configured token if there is one.
+ */
+export function setAccessToken(token: string | null, remember = state.remember) {
+  writeStorage(token, remember);
+  update(token ? { token, remember, configured: false, rejected: false } : fallbackState(remember, false));
+}
+
+/** Sets the deployment's token, which is used whenever the user hasn't entered their own */
+export function setConfiguredAccessToken(token: string | null) {
+  if (token && isSecretToken(token)) {
+    console.error('The configured Mapbox token is a secret (sk.) token and was not used. Configure a public (pk.) token.');
+    token = null;
+  }
+  configuredToken = token;
+  if (!state.token || state.configured) update(fallbackState(state.remember, false));
+}
+
+/** Secret tokens grant account access and must never reach a browser */
+export function isSecretToken(token: string): boolean {
+  return token.trim().startsWith('sk.');
+}
+
+/**
+ * Called when Mapbox answers 401: the token is revoked, expired or mistyped.
+ * A token the user entered is forgotten in favour of the configured one; when
+ * there is nothing left to fall back on, the app returns to the token form.
+ * Late answers for a token that has since been replaced are ignored.
+ */
+export function handleUnauthorized(rejectedToken: string | null) {
+  if (!state.token || rejectedToken !== state.token) return;
+
+  if (state.configured) {
+    configuredToken = null;
+  } else {
+    writeStorage(null, state.remember);
+  }
+  update(fallbackState(state.remember, true));
+}
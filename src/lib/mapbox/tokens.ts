@@ -0,0 +1,46 @@
+import { MAPBOX_API_URL } from './http';
+import { isSecretToken } from './token';
+import type { TokenResponse } from './types';
+
+/** Why a token was refused, for the form to put into words */
+export type TokenRejection = 'secret' | 'expired' | 'revoked' | 'malformed' | 'invalid';
+
+export interface TokenValidation {
+  valid: boolean;
+  reason?: TokenRejection;
+}
+
+const TOKEN_REJECTIONS: Record<string, TokenRejection> = {
+  TokenExpired: 'expired',
+  TokenRevoked: 'revoked',
+  TokenMalformed: 'malformed',
+};
+
+/**
+ * Checks a token against the Tokens API, which costs nothing against any
+ * quota, before it is used for anything else. Secret tokens are refused
+ * without being sent. Network failures are thrown rather than reported as an
+ * invalid token.
+ */
+export async function validateAccessToken(token: string, signal?: AbortSignal): Promise<TokenValidation> {
+  if (isSecretToken(token)) return { valid: false, reason: 'secret' };
+
+  const url = new URL('/tokens/v2', MAPBOX_API_URL);
+  url.searchParams.set('access_token', token);
+  const response = await fetch(url, { signal });
+
+  let body: TokenResponse | null = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Handled below as an unrecognised token
+  }
+
+  if (body?.code === 'TokenValid') {
+    return body.token?.usage === 'sk' ? { valid: false, reason: 'secret' } : { valid: true };
+  }
+  return {
+    valid: false,
+    reason: TOKEN_REJECTIONS[body?.code ?? ''] ?? 'invalid',
+  };
+}
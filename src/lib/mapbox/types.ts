@@ -0,0 +1,165 @@
+// Response models for the subset of the Mapbox web services used by the app.
+
+export type Coordinates = [number, number];
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: Coordinates[];
+}
+
+export type CongestionLevel = 'unknown' | 'low' | 'moderate' | 'heavy' | 'severe';
+
+/** Road classes Directions can be told to avoid via `exclude` */
+export type RoadExclusion = 'toll' | 'motorway' | 'ferry' | 'unpaved';
+
+export type DirectionsProfile =
+  | 'mapbox/driving-traffic'
+  | 'mapbox/driving'
+  | 'mapbox/walking'
+  | 'mapbox/cycling';
+
+// Geocoding
+
+export interface GeocodingFeature {
+  id: string;
+  type: 'Feature';
+  place_name: string;
+  place_type: string[];
+  center: Coordinates;
+  relevance: number;
+  text: string;
+}
+
+export interface GeocodingResponse {
+  type: 'FeatureCollection';
+  query: (string | number)[];
+  features: GeocodingFeature[];
+}
+
+// Directions
+
+export interface LegAnnotation {
+  congestion?: CongestionLevel[];
+  distance?: number[];
+  duration?: number[];
+}
+
+export interface StepManeuver {
+  type: string;
+  modifier?: string;
+  instruction: string;
+  location: Coordinates;
+  bearing_before: number;
+  bearing_after: number;
+}
+
+export interface BannerText {
+  text: string;
+  type?: string;
+  modifier?: string;
+}
+
+export interface BannerInstruction {
+  distanceAlongGeometry: number;
+  primary: BannerText;
+  secondary?: BannerText | null;
+}
+
+export interface VoiceInstruction {
+  distanceAlongGeometry: number;
+  announcement: string;
+  ssmlAnnouncement?: string;
+}
+
+export interface StepIntersection {
+  location: Coordinates;
+  /** Road classes at this intersection, e.g. `toll`, `motorway`, `ferry` */
+  classes?: string[];
+}
+
+export interface RouteStep {
+  distance: number;
+  duration: number;
+  name: string;
+  mode: string;
+  geometry: LineStringGeometry;
+  maneuver: StepManeuver;
+  bannerInstructions?: BannerInstruction[];
+  voiceInstructions?: VoiceInstruction[];
+  intersections?: StepIntersection[];
+}
+
+export interface RouteLeg {
+  distance: number;
+  duration: number;
+  summary: string;
+  steps: RouteStep[];
+  annotation?: LegAnnotation;
+}
+
+export interface DirectionsRoute {
+  geometry: LineStringGeometry;
+  distance: number;
+  duration: number;
+  weight: number;
+  weight_name: string;
+  legs: RouteLeg[];
+}
+
+export interface DirectionsWaypoint {
+  name: string;
+  location: Coordinates;
+}
+
+export interface DirectionsResponse {
+  code: string;
+  routes: DirectionsRoute[];
+  waypoints: DirectionsWaypoint[];
+  message?: string;
+}
+
+// Optimized Trips
+
+export interface TripWaypoint {
+  name: string;
+  location: Coordinates;
+  waypoint_index: number;
+  trips_index: number;
+}
+
+export interface Trip {
+  geometry: LineStringGeometry;
+  distance: number;
+  duration: number;
+  weight: number;
+  weight_name: string;
+  legs: RouteLeg[];
+}
+
+export interface OptimizationResponse {
+  code: string;
+  trips: Trip[];
+  waypoints: TripWaypoint[];
+  message?: string;
+}
+
+export interface MatrixResponse {
+  code: string;
+  /** Seconds from each source (row) to each destination (column); null when unroutable */
+  durations: (number | null)[][];
+  sources: DirectionsWaypoint[];
+  destinations: DirectionsWaypoint[];
+  message?: string;
+}
+
+// Tokens
+
+export interface TokenResponse {
+  /** `TokenValid`, or why the token can't be used, e.g. `TokenExpired` */
+  code: string;
+  token?: {
+    /** `pk` for public tokens, `sk` for secret ones */
+    usage: string;
+    user: string;
+  };
+}
@@ -0,0 +1,105 @@
+import { cumulativeDistances, snapToLine, type SnappedPoint } from '@/lib/geo';
+import type { BannerInstruction, Coordinates, StepManeuver, VoiceInstruction } from '@/lib/mapbox';
+import type { RouteData } from '@/lib/routes';
+
+/** Remaining distance (meters) under which the trip counts as arrived */
+export const ARRIVAL_RADIUS = 25;
+
+/** Default distance (meters) from the route line beyond which the user is off route */
+export const OFF_ROUTE_THRESHOLD = 50;
+
+/** Default time (ms) the user must stay off route before rerouting */
+export const OFF_ROUTE_DEBOUNCE = 5000;
+
+export interface PreparedRoute {
+  route: RouteData;
+  vertexDistances: number[];
+  /** Meters from the route start to the end of each step, in API distances */
+  stepEnds: number[];
+  /** Converts distances measured on the geometry into the API's distance scale */
+  scale: number;
+}
+
+export interface NavigationProgress {
+  snapped: SnappedPoint;
+  stepIndex: number;
+  nextManeuver: StepManeuver | null;
+  banner: BannerInstruction | null;
+  voice: VoiceInstruction | null;
+  distanceToManeuver: number;
+  distanceTraveled: number;
+  distanceRemaining: number;
+  durationRemaining: number;
+  arrived: boolean;
+}
+
+export function prepareRoute(route: RouteData): PreparedRoute {
+  const vertexDistances = cumulativeDistances(route.geometry.coordinates);
+  const geometryLength = vertexDistances[vertexDistances.length - 1] || 0;
+
+  const stepEnds: number[] = [];
+  route.steps.reduce((total, step) => {
+    stepEnds.push(total + step.distance);
+    return total + step.distance;
+  }, 0);
+
+  return {
+    route,
+    vertexDistances,
+    stepEnds,
+    scale: geometryLength > 0 ? route.distance / geometryLength : 1,
+  };
+}
+
+// Instructions are keyed by distance before the end of their step; pick the
+// one whose trigger distance was crossed most recently.
+function activeInstruction<T extends { distanceAlongGeometry: number }>(
+  instructions: T[] | undefined,
+  distanceToManeuver: number
+): T | null {
+  if (!instructions?.length) return null;
+  const triggered = instructions
+    .filter((instruction) => instruction.distanceAlongGeometry >= distanceToManeuver)
+    .sort((a, b) => a.distanceAlongGeometry - b.distanceAlongGeometry);
+  return triggered[0] ?? null;
+}
+
+export function computeProgress(
+  prepared: PreparedRoute,
+  position: Coordinates
+): NavigationProgress | null {
+  const { route, vertexDistances, stepEnds, scale } = prepared;
+  const snapped = snapToLine(position, route.geometry.coordinates, vertexDistances);
+  if (!snapped) return null;
+
+  const distanceTraveled = Math.min(route.distance, snapped.distanceAlong * scale);
+  const distanceRemaining = Math.max(0, route.distance - distanceTraveled);
+
+  let stepIndex = stepEnds.findIndex((end) => end > distanceTraveled);
+  if (stepIndex === -1) stepIndex = Math.max(0, route.steps.length - 1);
+
+  const step = route.steps[stepIndex];
+  const distanceToManeuver = step ? Math.max(0, stepEnds[stepIndex] - distanceTraveled) : distanceRemaining;
+
+  // Time left in the current step is prorated by distance, later steps count in full
+  let durationRemaining = route.duration * (distanceRemaining / (route.distance || 1));
+  if (step) {
+    durationRemaining = step.distance > 0 ? step.duration * (distanceToManeuver / step.distance) : 0;
+    for (let i = stepIndex + 1; i < route.steps.length; i++) {
+      durationRemaining += route.steps[i].duration;
+    }
+  }
+
+  return {
+    snapped,
+    stepIndex,
+    nextManeuver: route.steps[stepIndex + 1]?.maneuver ?? null,
+    banner: activeInstruction(step?.bannerInstructions, distanceToManeuver),
+    voice: activeInstruction(step?.voiceInstructions, distanceToManeuver),
+    distanceToManeuver,
+    distanceTraveled,
+    distanceRemaining,
+    durationRemaining,
+    arrived: distanceRemaining <= ARRIVAL_RADIUS,
+  };
+}
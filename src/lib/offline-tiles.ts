@@ -0,0 +1,236 @@
+import type { StyleSpecification } from 'mapbox-gl';
+import { buildUrl, getAccessToken, type Coordinates } from '@/lib/mapbox';
+
+/** Southwest and northeast corners */
+export type AreaBounds = [Coordinates, Coordinates];
+
+export interface OfflineArea {
+  id: string;
+  name: string;
+  bounds: AreaBounds;
+  /** Most detailed zoom level downloaded; every level below it is included */
+  maxZoom: number;
+  tileCount: number;
+  /** Bytes actually stored */
+  bytes: number;
+  /** Epoch milliseconds */
+  savedAt: number;
+}
+
+/** Detail levels offered when downloading, from overview to full street detail */
+export const OFFLINE_ZOOM_LEVELS = [12, 14, 16];
+export const DEFAULT_OFFLINE_ZOOM = 14;
+
+/** Larger areas are refused; at full detail this is roughly a 10 km square */
+export const MAX_OFFLINE_TILES = 6000;
+
+// Typical compressed size of a Streets vector tile in a city
+const AVERAGE_TILE_BYTES = 40 * 1024;
+// Style, sprite, glyphs and TileJSON together
+const STYLE_RESOURCE_BYTES = 1.5 * 1024 * 1024;
+
+// Latin, Latin Extended and general punctuation cover most street labels
+const GLYPH_RANGES = ['0-255', '256-511', '8192-8447'];
+
+const DOWNLOAD_CONCURRENCY = 6;
+
+// Offline areas each get their own cache so deleting one never touches another.
+// public/sw.js reads caches with this prefix.
+const CACHE_PREFIX = 'offline-area-';
+
+// Parameters that change between sessions without changing the resource.
+// Keep in step with offlineCacheKey in public/sw.js.
+const VOLATILE_PARAMS = ['access_token', 'sku'];
+
+/** The URL a Mapbox resource is stored under, whatever token or host fetched it */
+export function offlineCacheKey(url: string): string {
+  const key = new URL(url);
+  if (key.hostname.endsWith('.tiles.mapbox.com')) key.hostname = 'api.mapbox.com';
+  VOLATILE_PARAMS.forEach((param) => key.searchParams.delete(param));
+  key.searchParams.sort();
+  return key.toString();
+}
+
+const cacheName = (id: string) => `${CACHE_PREFIX}${id}`;
+
+interface TileRange {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+/** Web Mercator tiles at `zoom` that cover the bounds */
+function tileRange([[west, south], [east, north]]: AreaBounds, zoom: number): TileRange {
+  const tiles = 2 ** zoom;
+  const x = (lng: number) => Math.floor(((lng + 180) / 360) * tiles);
+  const y = (lat: number) => {
+    const radians = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+    return Math.floor(((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * tiles);
+  };
+  const clamp = (value: number) => Math.max(0, Math.min(tiles - 1, value));
+  return { minX: clamp(x(west)), maxX: clamp(x(east)), minY: clamp(y(north)), maxY: clamp(y(south)) };
+}
+
+function countTiles(bounds: AreaBounds, maxZoom: number): number {
+  let count = 0;
+  for (let zoom = 0; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+}
+
+/** Tile count and approximate download size for an area, before downloading it */
+export function estimateOfflineArea(bounds: AreaBounds, maxZoom: number) {
+  const tileCount = countTiles(bounds, maxZoom);
+  return { tileCount, bytes: tileCount * AVERAGE_TILE_BYTES + STYLE_RESOURCE_BYTES };
+}
+
+/** `mapbox://` URLs as Mapbox GL requests them over HTTPS */
+function resolveMapboxUrl(url: string, suffix = ''): string {
+  if (!url.startsWith('mapbox://')) return url;
+  const path = url.slice('mapbox://'.length);
+
+  if (path.startsWith('styles/')) return buildUrl(`/styles/v1/${path.slice('styles/'.length)}${suffix}`);
+  if (path.startsWith('sprites/')) return buildUrl(`/styles/v1/${path.slice('sprites/'.length)}/sprite${suffix}`);
+  if (path.startsWith('fonts/')) return buildUrl(`/fonts/v1/${path.slice('fonts/'.length)}${suffix}`);
+  return buildUrl(`/v4/${path}.json`, { secure: '' });
+}
+
+/** Font stacks named in a `text-font` value, whether plain or inside an expression */
+function fontStacks(value: unknown, isLiteral = true): string[][] {
+  if (!Array.isArray(value)) return [];
+  if (isLiteral && value.length > 0 && value.every((item) => typeof item === 'string')) return [value];
+  if (value[0] === 'literal') return fontStacks(value[1]);
+  return value.flatMap((item) => fontStacks(item, false));
+}
+
+function glyphUrls(style: StyleSpecification): string[] {
+  if (!style.glyphs) return [];
+  const stacks = new Set(
+    style.layers.flatMap((layer) =>
+      'layout' in layer && layer.layout && 'text-font' in layer.layout
+        ? fontStacks(layer.layout['text-font']).map((stack) => stack.join(','))
+        : []
+    )
+  );
+  return [...stacks].flatMap((stack) =>
+    GLYPH_RANGES.map((range) =>
+      resolveMapboxUrl(style.glyphs!.replace('{fontstack}', stack).replace('{range}', range))
+    )
+  );
+}
+
+function spriteUrls(style: StyleSpecification): string[] {
+  if (typeof style.sprite !== 'string') return [];
+  const ratio = window.devicePixelRatio > 1 ? '@2x' : '';
+  return ['.json', '.png'].map((extension) => resolveMapboxUrl(style.sprite as string, `${ratio}${extension}`));
+}
+
+interface TileSource {
+  tiles: string[];
+  maxzoom?: number;
+}
+
+function tileUrls({ tiles, maxzoom = 22 }: TileSource, bounds: AreaBounds, maxZoom: number): string[] {
+  const token = getAccessToken();
+  const urls: string[] = [];
+  for (let zoom = 0; zoom <= Math.min(maxZoom, maxzoom); zoom++) {
+    const { minX, maxX, minY, maxY } = tileRange(bounds, zoom);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        const url = new URL(tiles[(x + y) % tiles.length]
+          .replace('{z}', String(zoom))
+          .replace('{x}', String(x))
+          .replace('{y}', String(y)));
+        if (token && !url.searchParams.has('access_token')) url.searchParams.set('access_token', token);
+        urls.push(url.toString());
+      }
+    }
+  }
+  return urls;
+}
+
+/**
+ * Fetches a resource into the cache. Resources the server doesn't have, like
+ * empty ocean tiles, are skipped and come back as null.
+ */
+async function store(cache: Cache, url: string, signal?: AbortSignal): Promise<Response | null> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) return null;
+  await cache.put(offlineCacheKey(url), response.clone());
+  return response;
+}
+
+interface DownloadOptions {
+  /** Called with the number of resources finished and the total */
+  onProgress?: (done: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Downloads the map style, its sprite and label glyphs, and every vector tile
+ * covering the area up to `maxZoom` into the area's own cache, for the service
+ * worker to answer from when the network is gone. Live traffic is left out as
+ * it would be stale by the time it is used. Returns the bytes stored; an
+ * aborted or failed download leaves nothing behind.
+ */
+export async function downloadOfflineArea(
+  { id, bounds, maxZoom }: Pick<OfflineArea, 'id' | 'bounds' | 'maxZoom'>,
+  styleUrl: string,
+  { onProgress, signal }: DownloadOptions = {}
+): Promise<number> {
+  const cache = await caches.open(cacheName(id));
+  try {
+    const styleResponse = await store(cache, resolveMapboxUrl(styleUrl), signal);
+    if (!styleResponse) throw new Error('Map style could not be downloaded');
+    const style = (await styleResponse.json()) as StyleSpecification;
+
+    const sources: TileSource[] = [];
+    for (const source of Object.values(style.sources)) {
+      if (source.type !== 'vector') continue;
+      if (source.tiles) {
+        sources.push({ tiles: source.tiles, maxzoom: source.maxzoom });
+      } else if (source.url) {
+        const tileJson = await store(cache, resolveMapboxUrl(source.url), signal);
+        if (tileJson) sources.push((await tileJson.json()) as TileSource);
+      }
+    }
+
+    const urls = [
+      ...spriteUrls(style),
+      ...glyphUrls(style),
+      ...sources.flatMap((source) => tileUrls(source, bounds, maxZoom)),
+    ];
+
+    let bytes = 0;
+    let done = 0;
+    let next = 0;
+    onProgress?.(done, urls.length);
+
+    const worker = async () => {
+      while (next < urls.length) {
+        const response = await store(cache, urls[next++], signal);
+        if (response) bytes += (await response.blob()).size;
+        onProgress?.(++done, urls.length);
+      }
+    };
+    await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+    return bytes;
+  } catch (error) {
+    await caches.delete(cacheName(id));
+    throw error;
+  }
+}
+
+export function deleteOfflineArea(id: string): Promise<boolean> {
+  return caches.delete(cacheName(id));
+}
+
+/** Bytes this site stores and may store, where the browser reports them */
+export async function storageUsage(): Promise<{ usage: number; quota: number } | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
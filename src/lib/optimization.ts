@@ -0,0 +1,222 @@
+import type { Coordinates, DirectionsProfile } from '@/lib/mapbox';
+import { fetchCached, matrixQuery } from '@/lib/queries';
+import type { Place, RouteData } from '@/lib/routes';
+import type { TspOptions } from '@/lib/tsp';
+import type { TspRequest } from '@/lib/tsp.worker';
+
+/** Seconds after departure between which a stop can be served */
+export interface TimeWindow {
+  earliest: number;
+  latest: number;
+}
+
+export interface StopConstraints {
+  /** Seconds spent at the stop before driving on */
+  serviceTime: number;
+  window?: TimeWindow;
+}
+
+export interface ScheduledStop {
+  /** Seconds after departure, as for time windows */
+  arrival: number;
+  /** Time spent waiting for the window to open */
+  wait: number;
+  departure: number;
+  /** Arrived after the stop's window closed */
+  late: boolean;
+}
+
+/** A visiting order picked by optimization, with the user's own order to compare against */
+export interface OptimizedTrip {
+  /** The start followed by every stop in visiting order, ending at the start again for round trips */
+  stops: Place[];
+  route: RouteData;
+  /** One entry per stop after the start */
+  schedule: ScheduledStop[];
+  /** The same stops routed in the order the user entered them */
+  originalRoute: RouteData;
+  originalSchedule: ScheduledStop[];
+}
+
+export interface TripSavings {
+  /** Seconds saved over the user's order, including waiting; negative when it is slower */
+  duration: number;
+  /** Meters saved over the user's order; negative when it is longer */
+  distance: number;
+}
+
+/** Seconds from departure until the last stop is done with */
+export function scheduleEnd(schedule: ScheduledStop[]): number {
+  return schedule.length > 0 ? schedule[schedule.length - 1].departure : 0;
+}
+
+export function tripSavings(trip: OptimizedTrip): TripSavings {
+  return {
+    duration: scheduleEnd(trip.originalSchedule) - scheduleEnd(trip.schedule),
+    distance: trip.originalRoute.distance - trip.route.distance,
+  };
+}
+
+/**
+ * Walks the legs in order, waiting at stops whose window hasn't opened yet.
+ * `constraints` lines up with the legs: one entry per stop after the start.
+ */
+export function scheduleStops(legDurations: number[], constraints: StopConstraints[]): ScheduledStop[] {
+  let time = 0;
+  return legDurations.map((duration, index) => {
+    const { serviceTime = 0, window } = constraints[index] ?? {};
+    const arrival = time + duration;
+    const wait = window ? Math.max(0, window.earliest - arrival) : 0;
+    time = arrival + wait + serviceTime;
+    return { arrival, wait, departure: time, late: !!window && arrival > window.latest };
+  });
+}
+
+/** Most coordinates Optimized Trips accepts in one request */
+export const OPTIMIZED_TRIPS_COORDINATE_LIMIT = 12;
+/** Most stops the exact time window solver is run on */
+export const MAX_TIME_WINDOW_STOPS = 15;
+
+// The Matrix API accepts fewer coordinates per request with live traffic
+const TRAFFIC_MATRIX_COORDINATE_LIMIT = 10;
+const MATRIX_COORDINATE_LIMIT = 25;
+
+/**
+ * Travel time in seconds between every pair of coordinates. Larger sets are
+ * split into blocks so each request stays within the Matrix API's coordinate
+ * limit; pairs the API can't route come back as Infinity.
+ */
+export async function durationMatrix(
+  coordinates: Coordinates[],
+  requestedProfile: DirectionsProfile
+): Promise<number[][]> {
+  // Past the live traffic limit, typical driving times order stops just as
+  // well and take a fraction of the requests
+  const profile = requestedProfile === 'mapbox/driving-traffic' && coordinates.length > TRAFFIC_MATRIX_COORDINATE_LIMIT
+    ? 'mapbox/driving'
+    : requestedProfile;
+  const limit = profile === 'mapbox/driving-traffic' ? TRAFFIC_MATRIX_COORDINATE_LIMIT : MATRIX_COORDINATE_LIMIT;
+  const blockSize = coordinates.length <= limit ? coordinates.length : Math.floor(limit / 2);
+  const blocks: number[][] = [];
+  for (let start = 0; start < coordinates.length; start += blockSize) {
+    blocks.push(coordinates.map((_, i) => i).slice(start, start + blockSize));
+  }
+
+  const matrix = coordinates.map(() => coordinates.map(() => Infinity));
+
+  // Requests run one after another to stay clear of the Matrix rate limit
+  for (const sourceBlock of blocks) {
+    for (const destinationBlock of blocks) {
+      const indices = [...new Set([...sourceBlock, ...destinationBlock])];
+      const data = await fetchCached(matrixQuery(
+        indices.map((i) => coordinates[i]),
+        {
+          profile,
+          sources: sourceBlock.map((i) => indices.indexOf(i)),
+          destinations: destinationBlock.map((i) => indices.indexOf(i)),
+        }
+      ));
+
+      sourceBlock.forEach((from, row) => {
+        destinationBlock.forEach((to, column) => {
+          matrix[from][to] = data.durations[row]?.[column] ?? Infinity;
+        });
+      });
+    }
+  }
+
+  return matrix;
+}
+
+/**
+ * Heuristic visiting order for stop lists beyond what Optimized Trips takes,
+ * solved in a Web Worker. Index 0 of `matrix` is the start; see `solveTsp`.
+ */
+export function solveTspInWorker(matrix: number[][], options: TspOptions): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./tsp.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<number[]>) => {
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    const request: TspRequest = { matrix, options };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Exact visiting order that finishes earliest while meeting every stop's time
+ * window, for what the Optimization API can't express. Index 0 of `matrix` is
+ * the start and `constraints[i]` belongs to index i + 1. Returns the visiting
+ * order as indices starting with 0 (and ending with 0 for round trips), or
+ * null when no order meets all windows.
+ *
+ * Arriving earlier is never worse when waiting is allowed, so it is enough to
+ * keep the earliest finish for each set of visited stops and last stop. That
+ * makes the search exponential in the stop count, hence MAX_TIME_WINDOW_STOPS.
+ */
+export function solveWithTimeWindows(
+  matrix: number[][],
+  constraints: StopConstraints[],
+  { roundTrip, fixedEnd }: TspOptions
+): number[] | null {
+  const count = constraints.length;
+  const full = (1 << count) - 1;
+  const finish: number[][] = Array.from({ length: full + 1 }, () => new Array(count).fill(Infinity));
+  const previous: number[][] = Array.from({ length: full + 1 }, () => new Array(count).fill(-1));
+
+  const departAfter = (time: number, stop: number) => {
+    const { serviceTime, window } = constraints[stop];
+    if (window && time > window.latest) return Infinity;
+    return Math.max(time, window?.earliest ?? 0) + serviceTime;
+  };
+
+  for (let stop = 0; stop < count; stop++) {
+    finish[1 << stop][stop] = departAfter(matrix[0][stop + 1], stop);
+  }
+
+  for (let visited = 1; visited <= full; visited++) {
+    for (let last = 0; last < count; last++) {
+      const time = finish[visited][last];
+      if (time === Infinity) continue;
+
+      for (let next = 0; next < count; next++) {
+        if (visited & (1 << next)) continue;
+        const mask = visited | (1 << next);
+        const done = departAfter(time + matrix[last + 1][next + 1], next);
+        if (done < finish[mask][next]) {
+          finish[mask][next] = done;
+          previous[mask][next] = last;
+        }
+      }
+    }
+  }
+
+  let bestLast = -1;
+  let bestTime = Infinity;
+  for (let last = 0; last < count; last++) {
+    if (fixedEnd && !roundTrip && last !== count - 1) continue;
+    const time = finish[full][last] + (roundTrip ? matrix[last + 1][0] : 0);
+    if (time < bestTime) {
+      bestTime = time;
+      bestLast = last;
+    }
+  }
+
+  if (bestLast === -1) return null;
+
+  const order: number[] = [];
+  let mask = full;
+  for (let stop = bestLast; stop !== -1; ) {
+    order.unshift(stop + 1);
+    const before = previous[mask][stop];
+    mask &= ~(1 << stop);
+    stop = before;
+  }
+
+  return roundTrip ? [0, ...order, 0] : [0, ...order];
+}
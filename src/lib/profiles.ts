@@ -0,0 +1,82 @@
+import type { MessageKey } from '@/lib/i18n';
+import type { DirectionsOptions, DirectionsProfile, RoadExclusion } from '@/lib/mapbox';
+import type { TripTiming } from '@/lib/routes';
+
+export interface ProfileSettings {
+  /** Message for the profile's name; pass through `t` */
+  label: MessageKey;
+  /** Live congestion data exists, so traffic warnings and refreshes apply */
+  hasTraffic: boolean;
+  /** Distance (meters) from the route line before rerouting */
+  offRouteThreshold: number;
+  /** Road classes Directions accepts in `exclude` for this profile */
+  exclusions: RoadExclusion[];
+}
+
+/** Messages naming each road class; pass through `t` */
+export const ROAD_EXCLUSION_LABELS: Record<RoadExclusion, MessageKey> = {
+  toll: 'exclusion.toll',
+  motorway: 'exclusion.motorway',
+  ferry: 'exclusion.ferry',
+  unpaved: 'exclusion.unpaved',
+};
+
+const DRIVING_EXCLUSIONS: RoadExclusion[] = ['toll', 'motorway', 'ferry', 'unpaved'];
+
+export const PROFILES: Record<DirectionsProfile, ProfileSettings> = {
+  'mapbox/driving-traffic': {
+    label: 'profile.drivingTraffic',
+    hasTraffic: true,
+    offRouteThreshold: 50,
+    exclusions: DRIVING_EXCLUSIONS,
+  },
+  'mapbox/driving': {
+    label: 'profile.driving',
+    hasTraffic: false,
+    offRouteThreshold: 50,
+    exclusions: DRIVING_EXCLUSIONS,
+  },
+  'mapbox/walking': {
+    label: 'profile.walking',
+    hasTraffic: false,
+    offRouteThreshold: 25,
+    exclusions: [],
+  },
+  'mapbox/cycling': {
+    label: 'profile.cycling',
+    hasTraffic: false,
+    offRouteThreshold: 35,
+    exclusions: ['ferry'],
+  },
+};
+
+export const DEFAULT_PROFILE: DirectionsProfile = 'mapbox/driving-traffic';
+
+/** The user's avoid preferences that the profile can actually honour */
+export function supportedExclusions(profile: DirectionsProfile, avoid: RoadExclusion[]): RoadExclusion[] {
+  return avoid.filter((exclusion) => PROFILES[profile].exclusions.includes(exclusion));
+}
+
+const isDriving = (profile: DirectionsProfile) =>
+  profile === 'mapbox/driving-traffic' || profile === 'mapbox/driving';
+
+/**
+ * Directions parameters for a profile and trip time. Departure and arrival
+ * times are only sent for driving, where Mapbox supports them; `arrive_by`
+ * additionally requires the plain driving profile. Other profiles fall back
+ * to routing for now and the ETA is shifted locally.
+ */
+export function profileRequestOptions(
+  profile: DirectionsProfile,
+  timing: TripTiming
+): Pick<DirectionsOptions, 'profile' | 'departAt' | 'arriveBy'> {
+  if (!isDriving(profile) || timing.type === 'now') {
+    return { profile };
+  }
+
+  if (timing.type === 'arrive_by') {
+    return { profile: 'mapbox/driving', arriveBy: timing.time };
+  }
+
+  return { profile, departAt: timing.time };
+}
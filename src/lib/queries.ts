@@ -0,0 +1,113 @@
+import { QueryClient, queryOptions, type FetchQueryOptions, type QueryKey } from '@tanstack/react-query';
+import {
+  MapboxApiError,
+  forwardGeocode,
+  getDirections,
+  getMatrix,
+  getOptimizedTrip,
+  reverseGeocode,
+  type Coordinates,
+  type DirectionsOptions,
+  type DirectionsProfile,
+  type GeocodeOptions,
+  type MatrixOptions,
+  type OptimizationOptions,
+} from '@/lib/mapbox';
+import { getLocale, getUnitSystem } from '@/lib/format';
+import { PROFILES } from '@/lib/profiles';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Live traffic changes the answer within minutes; everything else barely moves
+const trafficStaleTime = (profile: DirectionsProfile = 'mapbox/driving-traffic') =>
+  PROFILES[profile].hasTraffic ? 2 * MINUTE : HOUR;
+
+// The query supplies the abort signal
+type RequestOptions<T> = Omit<T, 'signal'>;
+
+// Names and instructions follow the app's language and units. Both are part of
+// the query key, so changing them never serves answers cached for the old ones.
+const geocodeLanguage = () => getLocale().split('-')[0];
+
+const localizedDirections = (options: RequestOptions<DirectionsOptions>) => ({
+  language: getLocale(),
+  voiceUnits: getUnitSystem(),
+  ...options,
+});
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Try the network even when the browser reports being offline, so
+      // callers can fall back to cached answers instead of waiting
+      networkMode: 'offlineFirst',
+      gcTime: DAY,
+    },
+  },
+});
+
+/** Query key roots that are worth keeping across sessions */
+export const PERSISTED_QUERY_ROOTS = ['geocode', 'reverse-geocode', 'directions', 'optimized-trip'];
+
+export const geocodeQuery = (query: string, requestOptions: RequestOptions<GeocodeOptions> = {}) => {
+  const options = { language: geocodeLanguage(), ...requestOptions };
+  return queryOptions({
+    queryKey: ['geocode', query, options],
+    queryFn: ({ signal }) => forwardGeocode(query, { ...options, signal }),
+    staleTime: 7 * DAY,
+    gcTime: 7 * DAY,
+  });
+};
+
+export const reverseGeocodeQuery = (coordinates: Coordinates, requestOptions: RequestOptions<GeocodeOptions> = {}) => {
+  const options = { language: geocodeLanguage(), ...requestOptions };
+  return queryOptions({
+    queryKey: ['reverse-geocode', coordinates, options],
+    queryFn: ({ signal }) => reverseGeocode(coordinates, { ...options, signal }),
+    staleTime: 7 * DAY,
+    gcTime: 7 * DAY,
+  });
+};
+
+export const directionsQuery = (coordinates: Coordinates[], requestOptions: RequestOptions<DirectionsOptions> = {}) => {
+  const options = localizedDirections(requestOptions);
+  return queryOptions({
+    queryKey: ['directions', coordinates, options],
+    queryFn: ({ signal }) => getDirections(coordinates, { ...options, signal }),
+    staleTime: trafficStaleTime(options.profile),
+  });
+};
+
+export const optimizedTripQuery = (coordinates: Coordinates[], options: RequestOptions<OptimizationOptions> = {}) =>
+  queryOptions({
+    queryKey: ['optimized-trip', coordinates, options],
+    queryFn: ({ signal }) => getOptimizedTrip(coordinates, { ...options, signal }),
+    staleTime: trafficStaleTime(options.profile),
+  });
+
+export const matrixQuery = (coordinates: Coordinates[], options: RequestOptions<MatrixOptions> = {}) =>
+  queryOptions({
+    queryKey: ['matrix', coordinates, options],
+    queryFn: ({ signal }) => getMatrix(coordinates, { ...options, signal }),
+    staleTime: trafficStaleTime(options.profile),
+  });
+
+/**
+ * Fetches through the shared cache: fresh answers come straight from it and
+ * concurrent identical requests share one call. When the network fails, the
+ * last answer for the same request is used however old it is. Errors the API
+ * itself returned are still raised.
+ */
+export async function fetchCached<TData, TKey extends QueryKey>(
+  options: FetchQueryOptions<TData, Error, TData, TKey>
+): Promise<TData> {
+  try {
+    return await queryClient.fetchQuery(options);
+  } catch (error) {
+    const cached = queryClient.getQueryData<TData>(options.queryKey);
+    if (cached !== undefined && !(error instanceof MapboxApiError)) return cached;
+    throw error;
+  }
+}
@@ -0,0 +1,89 @@
+import { dehydrate, hydrate, type DehydratedState, type QueryClient } from '@tanstack/react-query';
+import { PERSISTED_QUERY_ROOTS } from '@/lib/queries';
+
+const DB_NAME = 'smart-traffic-monitor';
+const STORE_NAME = 'query-cache';
+const STATE_KEY = 'state';
+
+/** Most queries written out, newest first; routes with steps run to hundreds of kB */
+const MAX_PERSISTED_QUERIES = 100;
+/** Delay that batches bursts of cache updates into one write */
+const WRITE_DELAY = 1000;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Loads the cache saved by a previous session into `client` */
+export async function restoreQueryCache(client: QueryClient) {
+  try {
+    const state = await withStore<DehydratedState | undefined>('readonly', (store) => store.get(STATE_KEY));
+    if (state) hydrate(client, state);
+  } catch (error) {
+    console.error('Error restoring query cache:', error);
+  }
+}
+
+/** Drops every cached answer, both in memory and the copy saved to IndexedDB */
+export async function clearQueryCache(client: QueryClient) {
+  client.clear();
+  try {
+    await withStore('readwrite', (store) => store.delete(STATE_KEY));
+  } catch (error) {
+    console.error('Error clearing query cache:', error);
+  }
+}
+
+/**
+ * Writes successful geocoding, directions and optimization answers to
+ * IndexedDB whenever the cache changes, so searches and recent trips still
+ * resolve on a flaky connection. Nothing is written while `shouldPersist`
+ * says no. Returns a function that stops persisting.
+ */
+export function persistQueryCache(client: QueryClient, shouldPersist: () => boolean = () => true): () => void {
+  let timeoutId: number | undefined;
+
+  const write = () => {
+    if (!shouldPersist()) return;
+    const state = dehydrate(client, {
+      shouldDehydrateQuery: (query) =>
+        query.state.status === 'success' && PERSISTED_QUERY_ROOTS.includes(String(query.queryKey[0])),
+    });
+    state.queries = state.queries
+      .sort((a, b) => b.state.dataUpdatedAt - a.state.dataUpdatedAt)
+      .slice(0, MAX_PERSISTED_QUERIES);
+
+    withStore('readwrite', (store) => store.put(state, STATE_KEY)).catch((error) => {
+      console.error('Error saving query cache:', error);
+    });
+  };
+
+  const unsubscribe = client.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' && event.type !== 'removed') return;
+    window.clearTimeout(timeoutId);
+    timeoutId = window.setTimeout(write, WRITE_DELAY);
+  });
+
+  return () => {
+    window.clearTimeout(timeoutId);
+    unsubscribe();
+  };
+}
@@ -0,0 +1,134 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import type { Point } from 'geojson';
+import type { RouteData } from './routes';
+import { serializeRoute, type ExportedRoute, type ExportedRouteProperties, type RouteExport } from './route-export';
+import { parseGeoJsonStops, parseGpxStops } from './stop-import';
+
+const ROUTE: RouteData = {
+  profile: 'mapbox/driving-traffic',
+  geometry: {
+    type: 'LineString',
+    coordinates: [[-0.1276, 51.5072], [-0.1, 51.51], [-0.0877, 51.5079], [-0.076, 51.5081]],
+  },
+  duration: 1234.5,
+  distance: 5678.9,
+  congestion: ['low', 'heavy', 'severe'],
+  congestionScore: 0.61,
+  hasTraffic: true,
+  trafficLevel: 'heavy',
+  legs: [
+    { distance: 3000, duration: 700, summary: 'Strand' },
+    { distance: 2678.9, duration: 534.5, summary: 'Lower Thames Street' },
+  ],
+  steps: [],
+  roadClasses: [],
+};
+
+const EXPORT: RouteExport = {
+  name: 'Fish & Chips <"Tour">',
+  route: ROUTE,
+  waypoints: [
+    { name: 'Charing Cross', coordinates: [-0.1276, 51.5072] },
+    { name: "Bob's <Deli> & Co", coordinates: [-0.0877, 51.5079] },
+    { name: 'Tower "Gate"', coordinates: [-0.076, 51.5081] },
+  ],
+};
+
+const parseXml = (text: string) => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+};
+
+const childText = (element: Element, tag: string) => element.getElementsByTagName(tag)[0]?.textContent;
+
+describe('serializeRoute', () => {
+  it('writes GPX waypoints that read back as the same stops', () => {
+    const gpx = serializeRoute('gpx', EXPORT);
+
+    expect(parseGpxStops(gpx)).toEqual(EXPORT.waypoints.map((place, index) => ({
+      line: index + 1,
+      name: place.name,
+      coordinates: place.coordinates,
+    })));
+  });
+
+  it('writes the route line as a GPX track', () => {
+    const document = parseXml(serializeRoute('gpx', EXPORT));
+    const points = Array.from(document.getElementsByTagName('trkpt'))
+      .map((point) => [Number(point.getAttribute('lon')), Number(point.getAttribute('lat'))]);
+
+    expect(points).toEqual(ROUTE.geometry.coordinates);
+    expect(childText(document.getElementsByTagName('trk')[0], 'name')).toBe(EXPORT.name);
+    expect(childText(document.getElementsByTagName('metadata')[0], 'name')).toBe(EXPORT.name);
+  });
+
+  it('escapes markup in GPX names', () => {
+    const gpx = serializeRoute('gpx', EXPORT);
+
+    expect(gpx).toContain('<name>Fish &amp; Chips &lt;&quot;Tour&quot;&gt;</name>');
+    expect(gpx).toContain('<name>Bob&apos;s &lt;Deli&gt; &amp; Co</name>');
+  });
+
+  it('writes GeoJSON points that read back as the same stops', () => {
+    const geojson = serializeRoute('geojson', EXPORT);
+
+    expect(parseGeoJsonStops(geojson)).toEqual(EXPORT.waypoints.map((place, index) => ({
+      line: index + 2,
+      name: place.name,
+      coordinates: place.coordinates,
+    })));
+  });
+
+  it('gives GeoJSON waypoints their role along the route', () => {
+    const { features }: ExportedRoute = JSON.parse(serializeRoute('geojson', EXPORT));
+    const points = features.slice(1);
+
+    expect(points.map((feature) => feature.properties)).toEqual([
+      { name: 'Charing Cross', role: 'start' },
+      { name: "Bob's <Deli> & Co", role: 'stop' },
+      { name: 'Tower "Gate"', role: 'destination' },
+    ]);
+    expect(points.map((feature) => (feature.geometry as Point).coordinates))
+      .toEqual(EXPORT.waypoints.map((place) => place.coordinates));
+  });
+
+  it('carries duration, distance and congestion on the GeoJSON line', () => {
+    const { features }: ExportedRoute = JSON.parse(serializeRoute('geojson', EXPORT));
+    const [line] = features;
+
+    expect(line.geometry).toEqual(ROUTE.geometry);
+    expect(line.properties as ExportedRouteProperties).toEqual({
+      name: EXPORT.name,
+      profile: 'mapbox/driving-traffic',
+      duration: 1234.5,
+      distance: 5678.9,
+      trafficLevel: 'heavy',
+      congestionScore: 0.61,
+      congestion: ['low', 'heavy', 'severe'],
+      legs: ROUTE.legs,
+    });
+  });
+
+  it('writes a KML placemark per waypoint and one for the route line', () => {
+    const document = parseXml(serializeRoute('kml', EXPORT));
+    const placemarks = Array.from(document.getElementsByTagName('Placemark'));
+    const coordinates = (text: string) => text.trim().split(/\s+/).map((pair) => pair.split(',').map(Number));
+
+    expect(placemarks).toHaveLength(4);
+    expect(placemarks.slice(0, 3).map((placemark) => ({
+      name: childText(placemark, 'name'),
+      coordinates: coordinates(childText(placemark, 'coordinates'))[0],
+    }))).toEqual(EXPORT.waypoints);
+    expect(childText(placemarks[3], 'name')).toBe(EXPORT.name);
+    expect(coordinates(childText(placemarks[3], 'coordinates'))).toEqual(ROUTE.geometry.coordinates);
+  });
+
+  it('escapes markup in KML names', () => {
+    const kml = serializeRoute('kml', EXPORT);
+
+    expect(kml).toContain('<name>Fish &amp; Chips &lt;&quot;Tour&quot;&gt;</name>');
+    expect(kml).toContain('<name>Tower &quot;Gate&quot;</name>');
+  });
+});
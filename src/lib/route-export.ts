@@ -0,0 +1,148 @@
+import type { FeatureCollection, LineString, Point } from 'geojson';
+import type { Place, RouteData } from '@/lib/routes';
+
+export type RouteExportFormat = 'gpx' | 'geojson' | 'kml';
+
+export const ROUTE_EXPORT_FORMATS: Record<RouteExportFormat, { label: string; extension: string; mimeType: string }> = {
+  gpx: { label: 'GPX', extension: 'gpx', mimeType: 'application/gpx+xml' },
+  geojson: { label: 'GeoJSON', extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { label: 'KML', extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+};
+
+const CREATOR = 'Smart Traffic Monitor';
+
+/** What gets written out: the route line plus the places it visits, start first */
+export interface RouteExport {
+  name: string;
+  route: RouteData;
+  waypoints: Place[];
+}
+
+export type WaypointRole = 'start' | 'stop' | 'destination';
+
+export interface ExportedRouteProperties {
+  name: string;
+  profile: RouteData['profile'];
+  /** Seconds */
+  duration: number;
+  /** Meters */
+  distance: number;
+  trafficLevel: RouteData['trafficLevel'];
+  congestionScore: number;
+  /** One level per segment between consecutive coordinates */
+  congestion: RouteData['congestion'];
+  legs: RouteData['legs'];
+}
+
+export interface ExportedWaypointProperties {
+  name: string;
+  role: WaypointRole;
+}
+
+export type ExportedRoute = FeatureCollection<LineString | Point, ExportedRouteProperties | ExportedWaypointProperties>;
+
+const waypointRole = (index: number, count: number): WaypointRole => {
+  if (index === 0) return 'start';
+  return index === count - 1 ? 'destination' : 'stop';
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/** GPX 1.1 with one `<wpt>` per place and the route line as a single-segment track */
+export function routeToGpx({ name, route, waypoints }: RouteExport): string {
+  const points = waypoints
+    .map(({ name: placeName, coordinates: [lng, lat] }) =>
+      `  <wpt lat="${lat}" lon="${lng}"><name>${escapeXml(placeName)}</name></wpt>`)
+    .join('\n');
+  const track = route.geometry.coordinates
+    .map(([lng, lat]) => `      <trkpt lat="${lat}" lon="${lng}"/>`)
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+    points,
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    track,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * A FeatureCollection with the route line first, carrying duration, distance
+ * and per-segment congestion, followed by a Point for each place.
+ */
+export function routeToGeoJson({ name, route, waypoints }: RouteExport): ExportedRoute {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        properties: {
+          name,
+          profile: route.profile,
+          duration: route.duration,
+          distance: route.distance,
+          trafficLevel: route.trafficLevel,
+          congestionScore: route.congestionScore,
+          congestion: route.congestion,
+          legs: route.legs,
+        },
+        geometry: route.geometry,
+      },
+      ...waypoints.map((place, index) => ({
+        type: 'Feature' as const,
+        properties: { name: place.name, role: waypointRole(index, waypoints.length) },
+        geometry: { type: 'Point' as const, coordinates: place.coordinates },
+      })),
+    ],
+  };
+}
+
+/** KML with a Placemark per place and one for the route line */
+export function routeToKml({ name, route, waypoints }: RouteExport): string {
+  const placemarks = waypoints
+    .map(({ name: placeName, coordinates: [lng, lat] }) => [
+      '    <Placemark>',
+      `      <name>${escapeXml(placeName)}</name>`,
+      `      <Point><coordinates>${lng},${lat}</coordinates></Point>`,
+      '    </Placemark>',
+    ].join('\n'))
+    .join('\n');
+  const line = route.geometry.coordinates.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(name)}</name>`,
+    placemarks,
+    '    <Placemark>',
+    `      <name>${escapeXml(name)}</name>`,
+    `      <LineString><tessellate>1</tessellate><coordinates>${line}</coordinates></LineString>`,
+    '    </Placemark>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
+
+export function serializeRoute(format: RouteExportFormat, data: RouteExport): string {
+  switch (format) {
+    case 'gpx': return routeToGpx(data);
+    case 'geojson': return JSON.stringify(routeToGeoJson(data), null, 2);
+    case 'kml': return routeToKml(data);
+  }
+}
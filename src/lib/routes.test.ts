@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { TRAFFIC_LEVEL_THRESHOLDS, congestionScore, trafficLevelForScore } from './routes';
+
+describe('trafficLevelForScore', () => {
+  it.each([
+    [0, 'free'],
+    [0.0999, 'free'],
+    [0.1, 'light'],
+    [0.2499, 'light'],
+    [0.25, 'moderate'],
+    [0.4499, 'moderate'],
+    [0.45, 'heavy'],
+    [1, 'heavy'],
+  ])('scores %f as %s', (score, level) => {
+    expect(trafficLevelForScore(score)).toBe(level);
+  });
+
+  it.each([
+    ['light', 'free'],
+    ['moderate', 'light'],
+    ['heavy', 'moderate'],
+  ] as const)('starts %s exactly at its threshold, just above %s', (level, below) => {
+    const threshold = TRAFFIC_LEVEL_THRESHOLDS[level];
+    expect(trafficLevelForScore(threshold)).toBe(level);
+    expect(trafficLevelForScore(threshold - 1e-9)).toBe(below);
+  });
+
+  it.each([
+    [['low', 'low', 'heavy'], [100, 100, 100], 'light'],
+    [['low', 'severe'], [300, 100], 'moderate'],
+    [['moderate', 'heavy'], [100, 100], 'heavy'],
+    [['severe', 'low'], [1, 99], 'free'],
+  ] as const)('classifies %j over %j as %s', (levels, distances, level) => {
+    expect(trafficLevelForScore(congestionScore([...levels], [...distances]))).toBe(level);
+  });
+});
+
+describe('congestionScore', () => {
+  it('weights each level by segment length', () => {
+    expect(congestionScore(['low', 'severe'], [300, 100])).toBeCloseTo(0.25);
+    expect(congestionScore(['moderate', 'heavy'], [100, 100])).toBeCloseTo(0.5);
+  });
+
+  it('leaves unknown segments out of the average', () => {
+    expect(congestionScore(['unknown', 'severe'], [1000, 100])).toBe(1);
+    expect(congestionScore(['unknown', 'unknown'], [100, 100])).toBe(0);
+  });
+
+  it('ignores zero-length and missing segments', () => {
+    expect(congestionScore(['severe', 'low'], [0, 100])).toBe(0);
+    expect(congestionScore(['low', 'severe'], [100])).toBe(0);
+  });
+
+  it('scores an empty route as free flow', () => {
+    expect(congestionScore([], [])).toBe(0);
+  });
+
+  it('treats a short severe blip on a long route as free', () => {
+    const score = congestionScore(['low', 'severe', 'low'], [50000, 20, 49980]);
+    expect(trafficLevelForScore(score)).toBe('free');
+  });
+});
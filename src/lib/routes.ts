@@ -0,0 +1,254 @@
+import { cumulativeDistances, snapToLine } from '@/lib/geo';
+import { PROFILES } from '@/lib/profiles';
+import type {
+  CongestionLevel,
+  Coordinates,
+  DirectionsProfile,
+  DirectionsRoute,
+  LineStringGeometry,
+  RoadExclusion,
+  RouteStep,
+} from '@/lib/mapbox';
+
+export type TrafficLevel = 'free' | 'light' | 'moderate' | 'heavy';
+
+export interface Place {
+  name: string;
+  coordinates: Coordinates;
+}
+
+/** When a trip is planned for: leaving now, leaving at a time, or arriving by one */
+export type TripTiming =
+  | { type: 'now' }
+  | { type: 'depart_at' | 'arrive_by'; time: Date };
+
+export interface RouteLegSummary {
+  distance: number;
+  duration: number;
+  summary: string;
+}
+
+export interface RouteData {
+  profile: DirectionsProfile;
+  geometry: LineStringGeometry;
+  duration: number;
+  distance: number;
+  congestion: CongestionLevel[];
+  /** Length-weighted congestion from 0 (free flow) to 1 (fully severe) */
+  congestionScore: number;
+  hasTraffic: boolean;
+  trafficLevel: TrafficLevel;
+  /** One leg per stop along the route, ending at the destination */
+  legs: RouteLegSummary[];
+  steps: RouteStep[];
+  /** Road classes the route passes through, from step intersections */
+  roadClasses: string[];
+}
+
+// Contribution of each annotated level to the congestion score
+const CONGESTION_WEIGHTS: Record<Exclude<CongestionLevel, 'unknown'>, number> = {
+  low: 0,
+  moderate: 1 / 3,
+  heavy: 2 / 3,
+  severe: 1,
+};
+
+/** Minimum congestion score for each traffic level above free */
+export const TRAFFIC_LEVEL_THRESHOLDS: Record<Exclude<TrafficLevel, 'free'>, number> = {
+  light: 0.1,
+  moderate: 0.25,
+  heavy: 0.45,
+};
+
+/** Score difference at which an alternative counts as less congested */
+export const BETTER_ROUTE_SCORE_MARGIN = 0.1;
+
+/**
+ * Averages the congestion weights over the route, weighting each segment by
+ * its length. Segments annotated `unknown` are left out of the average.
+ */
+export function congestionScore(levels: CongestionLevel[], distances: number[]): number {
+  let weighted = 0;
+  let known = 0;
+
+  levels.forEach((level, index) => {
+    const length = distances[index] ?? 0;
+    if (level === 'unknown' || length <= 0) return;
+    weighted += CONGESTION_WEIGHTS[level] * length;
+    known += length;
+  });
+
+  return known > 0 ? weighted / known : 0;
+}
+
+export function trafficLevelForScore(score: number): TrafficLevel {
+  if (score >= TRAFFIC_LEVEL_THRESHOLDS.heavy) return 'heavy';
+  if (score >= TRAFFIC_LEVEL_THRESHOLDS.moderate) return 'moderate';
+  if (score >= TRAFFIC_LEVEL_THRESHOLDS.light) return 'light';
+  return 'free';
+}
+
+export function toRouteData(route: DirectionsRoute, profile: DirectionsProfile): RouteData {
+  // Leg annotations run end to end along the full route geometry. Only live
+  // traffic profiles have meaningful congestion, so others are never flagged.
+  const congestionLevels = PROFILES[profile].hasTraffic
+    ? route.legs.flatMap((leg) => leg.annotation?.congestion ?? [])
+    : [];
+  const annotatedDistances = route.legs.flatMap((leg) => leg.annotation?.distance ?? []);
+
+  // Fall back to measuring the geometry when distances weren't requested
+  let segmentDistances = annotatedDistances;
+  if (segmentDistances.length !== congestionLevels.length) {
+    const vertexDistances = cumulativeDistances(route.geometry.coordinates);
+    segmentDistances = vertexDistances.slice(1).map((end, i) => end - vertexDistances[i]);
+  }
+
+  const score = congestionScore(congestionLevels, segmentDistances);
+  const steps = route.legs.flatMap((leg) => leg.steps ?? []);
+  const trafficLevel = trafficLevelForScore(score);
+
+  return {
+    profile,
+    geometry: route.geometry,
+    duration: route.duration,
+    distance: route.distance,
+    congestion: congestionLevels,
+    congestionScore: score,
+    hasTraffic: trafficLevel !== 'free',
+    trafficLevel,
+    legs: route.legs.map(({ distance, duration, summary }) => ({ distance, duration, summary })),
+    steps,
+    roadClasses: collectRoadClasses(steps),
+  };
+}
+
+/** Most coordinates Directions accepts in one request */
+export const DIRECTIONS_COORDINATE_LIMIT = 25;
+
+/**
+ * Splits a path into runs Directions can route in one request each. Adjacent
+ * runs share their boundary point so the routes join up end to end.
+ */
+export function chunkCoordinates(coordinates: Coordinates[], limit = DIRECTIONS_COORDINATE_LIMIT): Coordinates[][] {
+  const chunks: Coordinates[][] = [];
+  for (let start = 0; start < coordinates.length - 1; start += limit - 1) {
+    chunks.push(coordinates.slice(start, start + limit));
+  }
+  return chunks;
+}
+
+/** Joins routes for consecutive chunks of a path into one route over the whole path */
+export function joinRoutes(routes: DirectionsRoute[]): DirectionsRoute {
+  const [first, ...rest] = routes;
+  return rest.reduce((joined, route) => ({
+    ...joined,
+    geometry: {
+      type: 'LineString',
+      // Each route starts where the previous one ended
+      coordinates: [...joined.geometry.coordinates, ...route.geometry.coordinates.slice(1)],
+    },
+    distance: joined.distance + route.distance,
+    duration: joined.duration + route.duration,
+    weight: joined.weight + route.weight,
+    legs: [...joined.legs, ...route.legs],
+  }), first);
+}
+
+function collectRoadClasses(steps: RouteStep[]): string[] {
+  const classes = new Set<string>();
+  steps.forEach((step) => {
+    if (step.mode === 'ferry') classes.add('ferry');
+    step.intersections?.forEach((intersection) => {
+      intersection.classes?.forEach((roadClass) => classes.add(roadClass));
+    });
+  });
+  return [...classes];
+}
+
+/**
+ * Avoid preferences the route still breaks, e.g. ones the profile couldn't
+ * send as `exclude`. Directions doesn't report unpaved classes, so those
+ * never show up.
+ */
+export function usedExclusions(route: RouteData, avoid: RoadExclusion[]): RoadExclusion[] {
+  return avoid.filter((exclusion) => route.roadClasses.includes(exclusion));
+}
+
+/**
+ * Index of the least congested alternative when it scores clearly better than
+ * the primary (first) route, otherwise -1.
+ */
+export function findLessCongestedRoute(routes: RouteData[]): number {
+  if (routes.length < 2) return -1;
+
+  let bestIndex = -1;
+  routes.slice(1).forEach((route, i) => {
+    if (bestIndex === -1 || route.congestionScore < routes[bestIndex].congestionScore) {
+      bestIndex = i + 1;
+    }
+  });
+
+  return routes[0].congestionScore - routes[bestIndex].congestionScore >= BETTER_ROUTE_SCORE_MARGIN
+    ? bestIndex
+    : -1;
+}
+
+/** Max distance (meters) between two lines for them to count as the same road */
+const OVERLAP_TOLERANCE = 30;
+const OVERLAP_SAMPLES = 50;
+
+/** Share of `candidate` (0-1) that runs along `reference` */
+export function routeOverlap(candidate: RouteData, reference: RouteData): number {
+  const line = reference.geometry.coordinates;
+  const points = candidate.geometry.coordinates;
+  if (points.length === 0 || line.length === 0) return 0;
+
+  const distances = cumulativeDistances(line);
+  const step = Math.max(1, Math.floor(points.length / OVERLAP_SAMPLES));
+  let sampled = 0;
+  let matched = 0;
+
+  for (let i = 0; i < points.length; i += step) {
+    sampled++;
+    const snapped = snapToLine(points[i], line, distances);
+    if (snapped && snapped.distanceFromLine <= OVERLAP_TOLERANCE) matched++;
+  }
+
+  return matched / sampled;
+}
+
+export interface FasterRouteOffer {
+  routes: RouteData[];
+  fasterIndex: number;
+  timeSaved: number;
+}
+
+/**
+ * Compares freshly fetched alternatives from the current position with the
+ * active route. The alternative that follows the active route supplies its
+ * up-to-date ETA; if none does, `remainingDuration` is used instead. Returns
+ * an offer when another alternative beats that ETA by at least `margin`
+ * seconds.
+ */
+export function findFasterRoute(
+  current: RouteData,
+  remainingDuration: number,
+  candidates: RouteData[],
+  margin: number
+): FasterRouteOffer | null {
+  const sameIndex = candidates.findIndex((candidate) => routeOverlap(candidate, current) >= 0.9);
+  const currentEta = sameIndex >= 0 ? candidates[sameIndex].duration : remainingDuration;
+
+  let fasterIndex = -1;
+  candidates.forEach((candidate, index) => {
+    if (index === sameIndex) return;
+    if (fasterIndex === -1 || candidate.duration < candidates[fasterIndex].duration) {
+      fasterIndex = index;
+    }
+  });
+
+  if (fasterIndex === -1) return null;
+
+  const timeSaved = currentEta - candidates[fasterIndex].duration;
+  return timeSaved >= margin ? { routes: candidates, fasterIndex, timeSaved } : null;
+}
@@ -0,0 +1,168 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import {
+  csvRowsToImport,
+  guessCsvMapping,
+  parseCsv,
+  parseGeoJsonStops,
+  parseGpxStops,
+  resolveImportRows,
+} from './stop-import';
+
+describe('parseCsv', () => {
+  it('reads quoted fields holding commas, quotes and line breaks', () => {
+    const csv = 'name,address\r\n"Smith, J.","1 High St\nFlat 2"\r\n"The ""Old"" Mill",2 Low Rd\r\n';
+
+    expect(parseCsv(csv)).toEqual({
+      headers: ['name', 'address'],
+      rows: [
+        ['Smith, J.', '1 High St\nFlat 2'],
+        ['The "Old" Mill', '2 Low Rd'],
+      ],
+    });
+  });
+
+  it('detects semicolons from the header and keeps decimal commas in fields', () => {
+    const csv = 'Name;Lat;Lng\nDepot;51,5072;-0,1276\n';
+
+    expect(parseCsv(csv)).toEqual({
+      headers: ['Name', 'Lat', 'Lng'],
+      rows: [['Depot', '51,5072', '-0,1276']],
+    });
+  });
+
+  it('trims values and drops blank lines', () => {
+    expect(parseCsv('name , address\n\n Depot , 1 High St \n,\n')).toEqual({
+      headers: ['name', 'address'],
+      rows: [['Depot', '1 High St']],
+    });
+  });
+});
+
+describe('guessCsvMapping', () => {
+  it('matches common header names in any case', () => {
+    expect(guessCsvMapping(['Customer', 'Full Address', 'LAT', 'Longitude', 'Notes'])).toEqual({
+      name: 0,
+      address: 1,
+      latitude: 2,
+      longitude: 3,
+    });
+    expect(guessCsvMapping(['stop', 'location', 'y', 'x'])).toEqual({ name: 0, address: 1, latitude: 2, longitude: 3 });
+  });
+
+  it('leaves out fields with no matching header', () => {
+    expect(guessCsvMapping(['id', 'street'])).toEqual({ address: 1 });
+  });
+});
+
+describe('csvRowsToImport', () => {
+  const mapping = { name: 0, address: 1, latitude: 2, longitude: 3 };
+
+  it('reads decimal commas from semicolon-separated sheets', () => {
+    const table = parseCsv('name;address;lat;lng\nDepot;;51,5072;-0,1276\n');
+
+    expect(csvRowsToImport(table, guessCsvMapping(table.headers))).toEqual([
+      { line: 2, name: 'Depot', coordinates: [-0.1276, 51.5072], address: undefined },
+    ]);
+  });
+
+  it('falls back to the address when a coordinate is missing or unreadable', () => {
+    const table = {
+      headers: ['name', 'address', 'lat', 'lng'],
+      rows: [
+        ['Depot', '1 High St', '', '-0.1'],
+        ['', '2 Low Rd', 'north', 'west'],
+        ['Mill', '', '', ''],
+      ],
+    };
+
+    expect(csvRowsToImport(table, mapping)).toEqual([
+      { line: 2, name: 'Depot', coordinates: undefined, address: '1 High St' },
+      { line: 3, name: '2 Low Rd', coordinates: undefined, address: '2 Low Rd' },
+      { line: 4, name: 'Mill', coordinates: undefined, address: undefined },
+    ]);
+  });
+
+  it('names unnamed rows after their coordinates', () => {
+    const table = { headers: ['lat', 'lng'], rows: [['51.5', '-0.12']] };
+
+    expect(csvRowsToImport(table, { latitude: 0, longitude: 1 })[0].name).toBe('51.5, -0.12');
+  });
+});
+
+const gpx = (waypoints: string) =>
+  `<?xml version="1.0"?><gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">${waypoints}</gpx>`;
+
+describe('parseGpxStops', () => {
+  it('reads waypoints with their names', () => {
+    expect(parseGpxStops(gpx('<wpt lat="51.5" lon="-0.12"><name> Depot </name></wpt>'))).toEqual([
+      { line: 1, name: 'Depot', coordinates: [-0.12, 51.5] },
+    ]);
+  });
+
+  it.each([
+    ['a missing latitude', '<wpt lon="-0.12"/>'],
+    ['a missing longitude', '<wpt lat="51.5"/>'],
+    ['an empty latitude', '<wpt lat="" lon="-0.12"/>'],
+    ['a non-numeric longitude', '<wpt lat="51.5" lon="west"/>'],
+  ])('reports a waypoint with %s as having no location', async (_, waypoint) => {
+    const rows = parseGpxStops(gpx(waypoint));
+    expect(rows[0].coordinates).toBeUndefined();
+
+    const [result] = await resolveImportRows(rows);
+    expect(result.place).toBeUndefined();
+    expect(result.error).toBe('import.error.noLocation');
+  });
+});
+
+describe('parseGeoJsonStops', () => {
+  it('reports points without finite coordinates instead of placing them', async () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        { type: 'Feature', properties: { name: 'Text' }, geometry: { type: 'Point', coordinates: ['2.35', '48.85'] } },
+        { type: 'Feature', properties: { name: 'Short' }, geometry: { type: 'Point', coordinates: [2.35] } },
+        { type: 'Feature', properties: { name: 'Missing' }, geometry: { type: 'Point', coordinates: null } },
+        { type: 'Feature', properties: { name: 'Multi' }, geometry: { type: 'MultiPoint', coordinates: [[1, 2], [3, null]] } },
+      ],
+    };
+    const rows = parseGeoJsonStops(JSON.stringify(collection));
+
+    expect(rows.map((row) => [row.name, row.coordinates])).toEqual([
+      ['Text', undefined],
+      ['Short', undefined],
+      ['Missing', undefined],
+      ['Multi', [1, 2]],
+      ['Multi', undefined],
+    ]);
+    const results = await resolveImportRows(rows);
+    expect(results.map((result) => result.error)).toEqual([
+      'import.error.noLocation',
+      'import.error.noLocation',
+      'import.error.noLocation',
+      undefined,
+      'import.error.noLocation',
+    ]);
+  });
+
+  it('rejects a collection whose features are not a list', () => {
+    expect(() => parseGeoJsonStops('{"type":"FeatureCollection","features":{}}')).toThrow();
+    expect(() => parseGeoJsonStops('{"type":"FeatureCollection"}')).toThrow();
+  });
+
+  it('skips null features and reads the rest', () => {
+    const collection = {
+      type: 'FeatureCollection',
+      features: [
+        null,
+        { type: 'Feature', properties: null, geometry: { type: 'Point', coordinates: [2.35, 48.85] } },
+        { type: 'Feature', properties: { name: 'Depot' }, geometry: { type: 'Point', coordinates: [-0.12, 51.5] } },
+      ],
+    };
+
+    expect(parseGeoJsonStops(JSON.stringify(collection))).toEqual([
+      { line: 2, name: 'Point 1', coordinates: [2.35, 48.85] },
+      { line: 3, name: 'Depot', coordinates: [-0.12, 51.5] },
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+import { t, type MessageKey } from '@/lib/i18n';
+import type { Coordinates } from '@/lib/mapbox';
+import { fetchCached, geocodeQuery } from '@/lib/queries';
+import type { Place } from '@/lib/routes';
+
+export type StopFileFormat = 'csv' | 'geojson' | 'gpx';
+
+/** One stop read from a file, located already or still to be geocoded */
+export interface ImportRow {
+  /** Row or feature number in the file, counting from 1, for error reports */
+  line: number;
+  name: string;
+  coordinates?: Coordinates;
+  /** Address to geocode when the file has no coordinates for the row */
+  address?: string;
+}
+
+export interface ImportResult {
+  row: ImportRow;
+  place?: Place;
+  /** Why the row couldn't be placed; pass through `t` */
+  error?: MessageKey;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Column index for each field; latitude and longitude are used together or not at all */
+export interface CsvColumnMapping {
+  name?: number;
+  address?: number;
+  latitude?: number;
+  longitude?: number;
+}
+
+export function detectStopFileFormat(fileName: string): StopFileFormat | null {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'csv' || extension === 'txt') return 'csv';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  if (extension === 'gpx') return 'gpx';
+  return null;
+}
+
+/**
+ * Minimal RFC 4180 reader: quoted fields may hold delimiters, doubled quotes
+ * and line breaks. Semicolon-separated files, common from spreadsheets in
+ * comma-decimal locales, are detected from the header line.
+ */
+export function parseCsv(text: string): CsvTable {
+  const headerLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (headerLine.match(/;/g)?.length ?? 0) > (headerLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [headers = [], ...rows] = records
+    .map((row) => row.map((value) => value.trim()))
+    .filter((row) => row.some((value) => value !== ''));
+  return { headers, rows };
+}
+
+const COLUMN_PATTERNS: Record<keyof CsvColumnMapping, RegExp> = {
+  name: /^(name|stop|customer|title|label)$/i,
+  address: /^(address|full[ _]?address|location|street|place)$/i,
+  latitude: /^(lat|latitude|y)$/i,
+  longitude: /^(lng|lon|long|longitude|x)$/i,
+};
+
+/** Best guess at the column mapping from header names, for the user to adjust */
+export function guessCsvMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  (Object.keys(COLUMN_PATTERNS) as (keyof CsvColumnMapping)[]).forEach((field) => {
+    const index = headers.findIndex((header) => COLUMN_PATTERNS[field].test(header));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+}
+
+const parseCoordinate = (value: string | undefined) => {
+  // Accept decimal commas from semicolon-separated files
+  const number = Number(value?.replace(',', '.'));
+  return value && Number.isFinite(number) ? number : undefined;
+};
+
+const isValidLocation = ([lng, lat]: Coordinates) =>
+  Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+
+/**
+ * Rows as stops using the mapped columns. Rows with usable coordinates are
+ * taken as they are; the rest fall back to the address column.
+ */
+export function csvRowsToImport(table: CsvTable, mapping: CsvColumnMapping): ImportRow[] {
+  return table.rows.map((row, index) => {
+    const cell = (column?: number) => (column === undefined ? undefined : row[column]);
+    const latitude = parseCoordinate(cell(mapping.latitude));
+    const longitude = parseCoordinate(cell(mapping.longitude));
+    const address = cell(mapping.address) || undefined;
+    const coordinates: Coordinates | undefined =
+      latitude !== undefined && longitude !== undefined ? [longitude, latitude] : undefined;
+
+    return {
+      // Line 1 is the header
+      line: index + 2,
+      name: cell(mapping.name) || address || (coordinates ? `${latitude}, ${longitude}` : t('import.defaultName.row', { number: index + 2 })),
+      coordinates,
+      address,
+    };
+  });
+}
+
+// A GeoJSON position, or undefined when it isn't a pair of finite numbers
+const toCoordinates = (position: unknown): Coordinates | undefined => {
+  if (!Array.isArray(position)) return undefined;
+  const [lng, lat] = position;
+  return Number.isFinite(lng) && Number.isFinite(lat) ? [lng, lat] : undefined;
+};
+
+/**
+ * Point features from a GeoJSON FeatureCollection, Feature or bare geometry.
+ * Points without usable coordinates come back without any, to be reported.
+ */
+export function parseGeoJsonStops(text: string): ImportRow[] {
+  const data = JSON.parse(text);
+  const features = data?.type === 'FeatureCollection'
+    ? data.features
+    : [data?.type === 'Feature' ? data : { type: 'Feature', properties: {}, geometry: data }];
+  if (!Array.isArray(features)) {
+    throw new Error('The file is not a valid GeoJSON FeatureCollection');
+  }
+
+  const rows: ImportRow[] = [];
+  features.forEach((feature, index) => {
+    const geometry = feature?.geometry;
+    const positions: unknown[] = geometry?.type === 'Point'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiPoint'
+        ? (Array.isArray(geometry.coordinates) ? geometry.coordinates : [geometry.coordinates])
+        : [];
+    const properties = feature?.properties ?? {};
+    const name = properties.name ?? properties.title ?? properties.address;
+
+    positions.forEach((position) => {
+      rows.push({
+        line: index + 1,
+        name: name ? String(name) : t('import.defaultName.point', { number: rows.length + 1 }),
+        coordinates: toCoordinates(position),
+      });
+    });
+  });
+  return rows;
+}
+
+/** `<wpt>` elements from a GPX document; tracks and routes are ignored */
+export function parseGpxStops(text: string): ImportRow[] {
+  const gpx = new DOMParser().parseFromString(text, 'application/xml');
+  if (gpx.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not valid GPX');
+  }
+
+  return Array.from(gpx.getElementsByTagName('wpt')).map((waypoint, index) => {
+    // Missing or unreadable, the waypoint is reported rather than put at 0, 0
+    const lat = parseCoordinate(waypoint.getAttribute('lat') ?? undefined);
+    const lng = parseCoordinate(waypoint.getAttribute('lon') ?? undefined);
+    const name = waypoint.getElementsByTagName('name')[0]?.textContent?.trim();
+    return {
+      line: index + 1,
+      name: name || t('import.defaultName.waypoint', { number: index + 1 }),
+      coordinates: lat !== undefined && lng !== undefined ? [lng, lat] as Coordinates : undefined,
+    };
+  });
+}
+
+/** Concurrent geocoding requests per batch, to stay well inside the rate limit */
+const GEOCODE_BATCH_SIZE = 5;
+
+/**
+ * Resolves every row to a place, geocoding addresses a batch at a time. Rows
+ * that can't be resolved come back with an error instead of failing the lot.
+ */
+export async function resolveImportRows(
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+
+  for (let start = 0; start < rows.length; start += GEOCODE_BATCH_SIZE) {
+    const batch = rows.slice(start, start + GEOCODE_BATCH_SIZE);
+    results.push(...await Promise.all(batch.map(resolveRow)));
+    onProgress?.(results.length, rows.length);
+  }
+
+  return results;
+}
+
+async function resolveRow(row: ImportRow): Promise<ImportResult> {
+  if (row.coordinates) {
+    return isValidLocation(row.coordinates)
+      ? { row, place: { name: row.name, coordinates: row.coordinates } }
+      : { row, error: 'import.error.outOfRange' };
+  }
+
+  if (!row.address) {
+    return { row, error: 'import.error.noLocation' };
+  }
+
+  try {
+    const data = await fetchCached(geocodeQuery(row.address));
+    const feature = data.features[0];
+    return feature
+      ? { row, place: { name: row.name === row.address ? feature.place_name : row.name, coordinates: feature.center } }
+      : { row, error: 'import.error.notFound' };
+  } catch (error) {
+    return { row, error: 'import.error.geocodingFailed' };
+  }
+}
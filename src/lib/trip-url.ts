@@ -0,0 +1,101 @@
+import { formatDirectionsTime, type Coordinates, type DirectionsProfile, type RoadExclusion } from '@/lib/mapbox';
+import { PROFILES, ROAD_EXCLUSION_LABELS } from '@/lib/profiles';
+import type { Place, TripTiming } from '@/lib/routes';
+
+export const TRIP_PATH = '/trip';
+
+/** A place from a link: coordinates when the link has them, otherwise text to geocode */
+export interface SharedPlace {
+  name: string;
+  coordinates?: Coordinates;
+}
+
+export interface SharedTrip {
+  from?: SharedPlace;
+  to?: SharedPlace;
+  via: SharedPlace[];
+  profile?: DirectionsProfile;
+  timing: TripTiming;
+  avoid?: RoadExclusion[];
+}
+
+export interface TripLink {
+  /** Omitted when the trip starts from the device location */
+  from: Place | null;
+  to: Place;
+  via: Place[];
+  profile: DirectionsProfile;
+  timing: TripTiming;
+  avoid: RoadExclusion[];
+}
+
+// About 10 cm, plenty for a shared link
+const COORDINATE_DECIMALS = 6;
+
+const PROFILE_PREFIX = 'mapbox/';
+
+/** `lng,lat,name`, where the name may itself contain commas */
+function encodePlace({ name, coordinates: [lng, lat] }: Place): string {
+  return `${lng.toFixed(COORDINATE_DECIMALS)},${lat.toFixed(COORDINATE_DECIMALS)},${name}`;
+}
+
+/**
+ * Reads `lng,lat,name` or `lng,lat` as a located place. Anything else, like a
+ * hand-written `to=Central Station`, is kept as a name to geocode.
+ */
+function decodePlace(value: string): SharedPlace | undefined {
+  const text = value.trim();
+  if (!text) return undefined;
+
+  const [lngText, latText, ...nameParts] = text.split(',');
+  const lng = Number(lngText);
+  const lat = Number(latText);
+  const located = lngText?.trim() !== '' && latText?.trim() !== ''
+    && Number.isFinite(lng) && Number.isFinite(lat)
+    && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+
+  if (!located) return { name: text };
+  return { name: nameParts.join(',').trim() || `${lat}, ${lng}`, coordinates: [lng, lat] };
+}
+
+function decodeTime(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  // Date-time strings without an offset parse as local time
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? undefined : time;
+}
+
+export function parseTripSearch(params: URLSearchParams): SharedTrip {
+  const profile = `${PROFILE_PREFIX}${params.get('profile')}` as DirectionsProfile;
+  const depart = decodeTime(params.get('depart'));
+  const arrive = decodeTime(params.get('arrive'));
+  const avoid = params.get('avoid');
+
+  return {
+    from: decodePlace(params.get('from') ?? ''),
+    to: decodePlace(params.get('to') ?? ''),
+    via: params.getAll('via').map(decodePlace).filter((place): place is SharedPlace => !!place),
+    profile: profile in PROFILES ? profile : undefined,
+    timing: arrive
+      ? { type: 'arrive_by', time: arrive }
+      : depart ? { type: 'depart_at', time: depart } : { type: 'now' },
+    avoid: avoid === null
+      ? undefined
+      : avoid.split(',').filter((item): item is RoadExclusion => item in ROAD_EXCLUSION_LABELS),
+  };
+}
+
+/** Query string for `TRIP_PATH` that `parseTripSearch` reads back */
+export function tripSearch({ from, to, via, profile, timing, avoid }: TripLink): string {
+  const params = new URLSearchParams();
+  if (from) params.set('from', encodePlace(from));
+  params.set('to', encodePlace(to));
+  via.forEach((stop) => params.append('via', encodePlace(stop)));
+  params.set('profile', profile.slice(PROFILE_PREFIX.length));
+  if (timing.type !== 'now') {
+    params.set(timing.type === 'depart_at' ? 'depart' : 'arrive', formatDirectionsTime(timing.time));
+  }
+  // Always written, so an empty list overrides the recipient's own preferences
+  params.set('avoid', avoid.join(','));
+  return params.toString();
+}
@@ -0,0 +1,266 @@
+import { describe, expect, it } from 'vitest';
+import { solveWithTimeWindows, type StopConstraints } from './optimization';
+import { nearestNeighbourTour, orOpt, solveTsp, tourCost, twoOpt, type TspOptions } from './tsp';
+
+const CASES: [string, TspOptions][] = [
+  ['open', { roundTrip: false, fixedEnd: false }],
+  ['fixed end', { roundTrip: false, fixedEnd: true }],
+  ['round trip', { roundTrip: true, fixedEnd: false }],
+];
+
+// Deterministic pseudo-random numbers so failures can be reproduced
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/** Asymmetric travel times with roughly one pair in ten unroutable */
+function randomMatrix(size: number, seed: number): number[][] {
+  const next = random(seed);
+  return Array.from({ length: size }, (_, from) => Array.from({ length: size }, (_, to) => {
+    if (from === to) return 0;
+    return next() < 0.1 ? Infinity : Math.round(next() * 1000);
+  }));
+}
+
+function shuffle<T>(items: T[], seed: number): T[] {
+  const next = random(seed);
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Straight-line distances between points evenly spaced on a unit circle, with
+ * index 0 at angle 0 and the other indices scattered around it. Going round
+ * the circle is the shortest tour, so its length is known at any size.
+ */
+function circleMatrix(size: number, seed: number): number[][] {
+  const positions = [0, ...shuffle(Array.from({ length: size - 1 }, (_, index) => index + 1), seed)];
+  const points = positions.map((position) => {
+    const angle = (2 * Math.PI * position) / size;
+    return [Math.cos(angle), Math.sin(angle)];
+  });
+  return points.map(([x1, y1]) => points.map(([x2, y2]) => Math.hypot(x1 - x2, y1 - y2)));
+}
+
+/** Length of one side of the regular polygon through `size` points on a unit circle */
+const circleSide = (size: number) => 2 * Math.sin(Math.PI / size);
+
+/** A valid but arbitrary visiting order to start the improvement passes from */
+function shuffledOrder(size: number, { roundTrip, fixedEnd }: TspOptions, seed: number): number[] {
+  const holdLast = fixedEnd && !roundTrip;
+  const middle = Array.from({ length: size - 1 }, (_, index) => index + 1)
+    .filter((index) => !(holdLast && index === size - 1));
+  return [0, ...shuffle(middle, seed), ...(holdLast ? [size - 1] : [])];
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+/** Every visiting order the options allow, from index 0 */
+function allOrders(size: number, { roundTrip, fixedEnd }: TspOptions): number[][] {
+  const holdLast = fixedEnd && !roundTrip;
+  const middle = Array.from({ length: size - 1 }, (_, index) => index + 1)
+    .filter((index) => !(holdLast && index === size - 1));
+  return permutations(middle).map((order) => [0, ...order, ...(holdLast ? [size - 1] : [])]);
+}
+
+function bruteForceCost(matrix: number[][], options: TspOptions): number {
+  return Math.min(...allOrders(matrix.length, options).map((order) => tourCost(matrix, order, options.roundTrip)));
+}
+
+const MATRICES = [4, 5, 6, 7].flatMap((size) => [1, 2, 3, 4, 5].map((seed) => ({ size, seed })));
+const CIRCLES = [5, 6, 7].flatMap((size) => [1, 2, 3, 4].map((seed) => ({ size, seed })));
+const ROUND_TRIP: TspOptions = { roundTrip: true, fixedEnd: false };
+const OPEN: TspOptions = { roundTrip: false, fixedEnd: false };
+const FIXED_END: TspOptions = { roundTrip: false, fixedEnd: true };
+
+describe('solveTsp', () => {
+  describe.each(CASES)('%s', (_, options) => {
+    it.each(MATRICES)('matches the brute-force optimum for $size nodes (seed $seed)', ({ size, seed }) => {
+      const matrix = randomMatrix(size, seed);
+      const order = solveTsp(matrix, options);
+      const visits = options.roundTrip ? order.slice(0, -1) : order;
+
+      expect(order[0]).toBe(0);
+      expect([...visits].sort((a, b) => a - b)).toEqual(Array.from({ length: size }, (_, index) => index));
+      if (options.roundTrip) expect(order[order.length - 1]).toBe(0);
+      if (options.fixedEnd && !options.roundTrip) expect(order[order.length - 1]).toBe(size - 1);
+      expect(tourCost(matrix, visits, options.roundTrip)).toBe(bruteForceCost(matrix, options));
+    });
+  });
+
+  it('routes around unroutable pairs', () => {
+    const matrix = [
+      [0, 1, Infinity, 9],
+      [Infinity, 0, 1, 9],
+      [9, Infinity, 0, 1],
+      [1, 9, Infinity, 0],
+    ];
+    expect(solveTsp(matrix, { roundTrip: true, fixedEnd: false })).toEqual([0, 1, 2, 3, 0]);
+  });
+
+  it('still returns an order when no order is routable', () => {
+    const matrix = [
+      [0, Infinity, Infinity],
+      [Infinity, 0, Infinity],
+      [Infinity, Infinity, 0],
+    ];
+    expect(solveTsp(matrix, { roundTrip: false, fixedEnd: false })).toHaveLength(3);
+  });
+
+  it.each([20, 30])('goes round the circle for %d points, past the exact solver', (size) => {
+    const matrix = circleMatrix(size, size);
+
+    const roundTrip = solveTsp(matrix, ROUND_TRIP);
+    expect(tourCost(matrix, roundTrip, false)).toBeCloseTo(size * circleSide(size), 9);
+
+    const open = solveTsp(matrix, OPEN);
+    expect(tourCost(matrix, open, false)).toBeCloseTo((size - 1) * circleSide(size), 9);
+  });
+
+  it('visits every stop once on matrices too large to solve exactly', () => {
+    const matrix = randomMatrix(30, 7);
+    const order = solveTsp(matrix, { roundTrip: false, fixedEnd: true });
+    expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: 30 }, (_, index) => index));
+    expect(order[0]).toBe(0);
+    expect(order[29]).toBe(29);
+  });
+});
+
+describe('nearestNeighbourTour', () => {
+  it('drives along a line of stops in order', () => {
+    const positions = [0, 4, 1, 3, 2];
+    const matrix = positions.map((from) => positions.map((to) => Math.abs(from - to)));
+    expect(nearestNeighbourTour(matrix, { fixedEnd: false })).toEqual([0, 2, 4, 3, 1]);
+    expect(nearestNeighbourTour(matrix, { fixedEnd: true })).toEqual([0, 2, 3, 1, 4]);
+  });
+});
+
+describe('twoOpt', () => {
+  it.each(CIRCLES)('untangles a round trip to the optimum for $size points (seed $seed)', ({ size, seed }) => {
+    const matrix = circleMatrix(size, seed);
+    const order = twoOpt(matrix, shuffledOrder(size, ROUND_TRIP, seed), ROUND_TRIP);
+    expect(tourCost(matrix, order, true)).toBeCloseTo(bruteForceCost(matrix, ROUND_TRIP), 9);
+  });
+
+  it.each(CIRCLES)('reaches the optimum for an open trip of $size points (seed $seed)', ({ size, seed }) => {
+    const matrix = circleMatrix(size, seed);
+    const order = twoOpt(matrix, shuffledOrder(size, OPEN, seed), OPEN);
+    expect(order[0]).toBe(0);
+    expect(tourCost(matrix, order, false)).toBeCloseTo(bruteForceCost(matrix, OPEN), 9);
+  });
+
+  it('keeps the start and a fixed end in place', () => {
+    const matrix = randomMatrix(7, 3);
+    const order = twoOpt(matrix, shuffledOrder(7, FIXED_END, 3), FIXED_END);
+    expect(order[0]).toBe(0);
+    expect(order[6]).toBe(6);
+  });
+});
+
+describe('orOpt', () => {
+  it.each(CIRCLES)('reaches the optimum for a round trip of $size points (seed $seed)', ({ size, seed }) => {
+    const matrix = circleMatrix(size, seed);
+    const order = orOpt(matrix, shuffledOrder(size, ROUND_TRIP, seed), ROUND_TRIP);
+    expect(tourCost(matrix, order, true)).toBeCloseTo(bruteForceCost(matrix, ROUND_TRIP), 9);
+  });
+
+  it.each(CIRCLES)('reaches the optimum for an open trip of $size points (seed $seed)', ({ size, seed }) => {
+    const matrix = circleMatrix(size, seed);
+    const order = orOpt(matrix, shuffledOrder(size, OPEN, seed), OPEN);
+    expect(tourCost(matrix, order, false)).toBeCloseTo(bruteForceCost(matrix, OPEN), 9);
+  });
+
+  it.each(CIRCLES)('reaches the optimum with a fixed end after 2-opt for $size points (seed $seed)', ({ size, seed }) => {
+    const matrix = circleMatrix(size, seed);
+    const order = orOpt(matrix, twoOpt(matrix, shuffledOrder(size, FIXED_END, seed), FIXED_END), FIXED_END);
+    expect(order[size - 1]).toBe(size - 1);
+    expect(tourCost(matrix, order, false)).toBeCloseTo(bruteForceCost(matrix, FIXED_END), 9);
+  });
+
+  it('moves a run of stops back where it belongs', () => {
+    const positions = [0, 1, 2, 3, 4, 5, 6];
+    const matrix = positions.map((from) => positions.map((to) => Math.abs(from - to)));
+    expect(orOpt(matrix, [0, 1, 5, 6, 2, 3, 4], OPEN)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+  });
+});
+
+/** Time the last stop is left, or the start reached again, or Infinity if a window is missed */
+function finishTime(matrix: number[][], constraints: StopConstraints[], order: number[], roundTrip: boolean): number {
+  let time = 0;
+  for (let i = 1; i < order.length; i++) {
+    time += matrix[order[i - 1]][order[i]];
+    const { serviceTime, window } = constraints[order[i] - 1];
+    if (window && time > window.latest) return Infinity;
+    time = Math.max(time, window?.earliest ?? 0) + serviceTime;
+  }
+  return roundTrip ? time + matrix[order[order.length - 1]][0] : time;
+}
+
+function randomConstraints(count: number, seed: number): StopConstraints[] {
+  const next = random(seed);
+  return Array.from({ length: count }, () => {
+    const serviceTime = Math.round(next() * 300);
+    if (next() < 0.4) return { serviceTime };
+    const earliest = Math.round(next() * 2000);
+    return { serviceTime, window: { earliest, latest: earliest + Math.round(next() * 1500) } };
+  });
+}
+
+describe('solveWithTimeWindows', () => {
+  describe.each(CASES)('%s', (_, options) => {
+    it.each(MATRICES)('matches the brute-force optimum for $size nodes (seed $seed)', ({ size, seed }) => {
+      const matrix = randomMatrix(size, seed);
+      const constraints = randomConstraints(size - 1, seed);
+      const best = Math.min(...allOrders(size, options)
+        .map((order) => finishTime(matrix, constraints, order, options.roundTrip)));
+      const order = solveWithTimeWindows(matrix, constraints, options);
+
+      if (best === Infinity) {
+        expect(order).toBeNull();
+        return;
+      }
+      const visits = options.roundTrip ? order.slice(0, -1) : order;
+      if (options.fixedEnd && !options.roundTrip) expect(visits[visits.length - 1]).toBe(size - 1);
+      expect(finishTime(matrix, constraints, visits, options.roundTrip)).toBe(best);
+    });
+  });
+
+  it('waits for a window to open rather than arriving early', () => {
+    const matrix = [
+      [0, 10, 10],
+      [10, 0, 10],
+      [10, 10, 0],
+    ];
+    const constraints = [
+      { serviceTime: 0, window: { earliest: 100, latest: 200 } },
+      { serviceTime: 0 },
+    ];
+    expect(solveWithTimeWindows(matrix, constraints, { roundTrip: false, fixedEnd: false })).toEqual([0, 2, 1]);
+  });
+
+  it('gives up when no order meets every window', () => {
+    const matrix = [
+      [0, 100, 100],
+      [100, 0, 100],
+      [100, 100, 0],
+    ];
+    const constraints = [
+      { serviceTime: 0, window: { earliest: 0, latest: 150 } },
+      { serviceTime: 0, window: { earliest: 0, latest: 150 } },
+    ];
+    expect(solveWithTimeWindows(matrix, constraints, { roundTrip: false, fixedEnd: false })).toBeNull();
+  });
+});
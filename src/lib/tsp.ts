@@ -0,0 +1,196 @@
+export interface TspOptions {
+  /** Return to the start after the last stop */
+  roundTrip: boolean;
+  /** Keep the last index of the matrix as the final stop */
+  fixedEnd: boolean;
+}
+
+/** Improvement passes stop once a full pass gains less than this many seconds */
+const MIN_IMPROVEMENT = 1e-6;
+/** Longest run of consecutive stops Or-opt tries to move elsewhere */
+const OR_OPT_MAX_SEGMENT = 3;
+/** Largest matrix solved exactly rather than by the heuristics below */
+const EXACT_SOLVER_LIMIT = 12;
+
+/** Total travel time of a visiting order, including the return for round trips */
+export function tourCost(matrix: number[][], order: number[], roundTrip: boolean): number {
+  let cost = 0;
+  for (let i = 1; i < order.length; i++) {
+    cost += matrix[order[i - 1]][order[i]];
+  }
+  return roundTrip && order.length > 1 ? cost + matrix[order[order.length - 1]][order[0]] : cost;
+}
+
+/** Greedy tour from index 0 that always drives to the closest unvisited stop */
+export function nearestNeighbourTour(matrix: number[][], { fixedEnd }: Pick<TspOptions, 'fixedEnd'>): number[] {
+  const count = matrix.length;
+  const last = count - 1;
+  const visited = new Set([0]);
+  const order = [0];
+
+  if (fixedEnd && last > 0) visited.add(last);
+
+  while (visited.size < count) {
+    const from = order[order.length - 1];
+    let next = -1;
+    for (let candidate = 0; candidate < count; candidate++) {
+      if (visited.has(candidate)) continue;
+      if (next === -1 || matrix[from][candidate] < matrix[from][next]) next = candidate;
+    }
+    visited.add(next);
+    order.push(next);
+  }
+
+  if (fixedEnd && last > 0) order.push(last);
+  return order;
+}
+
+/**
+ * Reverses runs of the tour while that shortens it. Travel times need not be
+ * symmetric, so each candidate is costed in full rather than by swapping two
+ * edges.
+ */
+export function twoOpt(matrix: number[][], order: number[], options: TspOptions): number[] {
+  let best = [...order];
+  let bestCost = tourCost(matrix, best, options.roundTrip);
+  const end = movableEnd(best, options);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < end - 1; i++) {
+      for (let j = i + 1; j < end; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const cost = tourCost(matrix, candidate, options.roundTrip);
+        if (cost < bestCost - MIN_IMPROVEMENT) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/** Moves runs of up to three consecutive stops to wherever they fit best */
+export function orOpt(matrix: number[][], order: number[], options: TspOptions): number[] {
+  let best = [...order];
+  let bestCost = tourCost(matrix, best, options.roundTrip);
+  const end = movableEnd(best, options);
+
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let length = 1; length <= OR_OPT_MAX_SEGMENT; length++) {
+      for (let i = 1; i + length <= end; i++) {
+        const segment = best.slice(i, i + length);
+        const rest = [...best.slice(0, i), ...best.slice(i + length)];
+        for (let at = 1; at <= end - length; at++) {
+          if (at === i) continue;
+          const candidate = [...rest.slice(0, at), ...segment, ...rest.slice(at)];
+          const cost = tourCost(matrix, candidate, options.roundTrip);
+          if (cost < bestCost - MIN_IMPROVEMENT) {
+            best = candidate;
+            bestCost = cost;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Cheapest visiting order by dynamic programming over subsets of stops
+ * (Held-Karp). Exponential in the stop count, so only for small matrices.
+ * Unreachable pairs (Infinity) are allowed; if every order is unreachable,
+ * some order is still returned.
+ */
+export function exactTour(matrix: number[][], { roundTrip, fixedEnd }: TspOptions): number[] {
+  const last = matrix.length - 1;
+  const holdLast = fixedEnd && !roundTrip && last > 0;
+  const stops = Array.from({ length: matrix.length }, (_, index) => index)
+    .filter((index) => index !== 0 && !(holdLast && index === last));
+  const count = stops.length;
+  const full = (1 << count) - 1;
+  const cost: number[][] = Array.from({ length: full + 1 }, () => new Array(count).fill(Infinity));
+  const previous: number[][] = Array.from({ length: full + 1 }, () => new Array(count).fill(-1));
+
+  for (let stop = 0; stop < count; stop++) {
+    cost[1 << stop][stop] = matrix[0][stops[stop]];
+  }
+
+  for (let visited = 1; visited <= full; visited++) {
+    for (let next = 0; next < count; next++) {
+      if (!(visited & (1 << next)) || visited === 1 << next) continue;
+      const before = visited & ~(1 << next);
+      for (let from = 0; from < count; from++) {
+        if (!(before & (1 << from))) continue;
+        const candidate = cost[before][from] + matrix[stops[from]][stops[next]];
+        if (previous[visited][next] === -1 || candidate < cost[visited][next]) {
+          cost[visited][next] = candidate;
+          previous[visited][next] = from;
+        }
+      }
+    }
+  }
+
+  const closing = (stop: number) => {
+    if (roundTrip) return matrix[stops[stop]][0];
+    return holdLast ? matrix[stops[stop]][last] : 0;
+  };
+  let bestLast = -1;
+  for (let stop = 0; stop < count; stop++) {
+    if (bestLast === -1 || cost[full][stop] + closing(stop) < cost[full][bestLast] + closing(bestLast)) {
+      bestLast = stop;
+    }
+  }
+
+  const order: number[] = [];
+  let mask = full;
+  for (let stop = bestLast; stop !== -1; ) {
+    order.unshift(stops[stop]);
+    const before = previous[mask][stop];
+    mask &= ~(1 << stop);
+    stop = before;
+  }
+
+  return [0, ...order, ...(holdLast ? [last] : [])];
+}
+
+/**
+ * Visiting order over a travel time matrix where index 0 is the start. Small
+ * matrices are solved exactly; larger ones use nearest neighbour, then 2-opt
+ * and Or-opt until neither improves. The heuristic isn't guaranteed optimal,
+ * but is quick enough for around a hundred stops. Round trips come back with
+ * the start appended again.
+ */
+export function solveTsp(matrix: number[][], tspOptions: TspOptions): number[] {
+  // A round trip ends at the start, so there is no final stop to hold in place
+  const options = { ...tspOptions, fixedEnd: tspOptions.fixedEnd && !tspOptions.roundTrip };
+  if (matrix.length <= EXACT_SOLVER_LIMIT) {
+    const order = exactTour(matrix, options);
+    return options.roundTrip ? [...order, 0] : order;
+  }
+
+  let order = nearestNeighbourTour(matrix, options);
+  let cost = tourCost(matrix, order, options.roundTrip);
+
+  for (;;) {
+    order = orOpt(matrix, twoOpt(matrix, order, options), options);
+    const next = tourCost(matrix, order, options.roundTrip);
+    if (next >= cost - MIN_IMPROVEMENT) break;
+    cost = next;
+  }
+
+  return options.roundTrip ? [...order, 0] : order;
+}
+
+// Positions before this index may be rearranged; the start and a fixed end stay put
+function movableEnd(order: number[], { fixedEnd, roundTrip }: TspOptions): number {
+  return fixedEnd && !roundTrip ? order.length - 1 : order.length;
+}
@@ -0,0 +1,12 @@
+import { solveTsp, type TspOptions } from './tsp';
+
+export interface TspRequest {
+  matrix: number[][];
+  options: TspOptions;
+}
+
+// Runs the solver off the main thread so large stop lists don't freeze the map
+self.onmessage = (event: MessageEvent<TspRequest>) => {
+  const { matrix, options } = event.data;
+  self.postMessage(solveTsp(matrix, options));
+};
@@ -1,5 +1,20 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
+import { loadConfig } from '@/lib/config'
+import { setConfiguredAccessToken } from '@/lib/mapbox'
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Runtime config decides the token and map defaults, so it loads before the first render
+loadConfig().then((config) => {
+  setConfiguredAccessToken(config.mapboxToken);
+  createRoot(document.getElementById("root")!).render(<App />);
+});
+
+// The service worker serves the app shell and downloaded map areas offline
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
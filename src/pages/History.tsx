@@ -0,0 +1,106 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, History as HistoryIcon, RotateCcw, Trash2 } from 'lucide-react';
+import { HISTORY_LIMITS, useTripHistory, type TripRecord } from '@/hooks/use-trip-history';
+import { useTranslation } from '@/hooks/use-translation';
+import { formatDateTime, formatDistance, formatDuration } from '@/lib/format';
+import { PROFILES } from '@/lib/profiles';
+import { TRIP_PATH, tripSearch } from '@/lib/trip-url';
+
+// Re-running plans the same trip again from now
+const rerunLink = (trip: TripRecord) =>
+  `${TRIP_PATH}?${tripSearch({ ...trip, timing: { type: 'now' } })}`;
+
+const History = () => {
+  const { trips, limit, removeTrip, setLimit, clearHistory } = useTripHistory();
+  const { t } = useTranslation();
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="mx-auto max-w-2xl space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" asChild title={t('common.backToMap')}>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold flex items-center gap-2">
+            <HistoryIcon className="h-5 w-5 text-primary" />
+            {t('history.title')}
+          </h1>
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm">{t('history.keep')}</Label>
+            <Select value={String(limit)} onValueChange={(value) => setLimit(Number(value))}>
+              <SelectTrigger className="w-32 h-8 bg-background/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HISTORY_LIMITS.map((max) => (
+                  <SelectItem key={max} value={String(max)}>
+                    {max === 0 ? t('history.off') : t('history.last', { count: max })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('history.deviceOnly')}
+          </p>
+          <Button variant="outline" size="sm" onClick={clearHistory}>
+            {t('history.clear')}
+          </Button>
+        </Card>
+
+        {trips.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            {t('history.empty')}
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {trips.map((trip) => (
+              <Card key={trip.id} className="p-3 flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{trip.to.name.split(',')[0]}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {t('history.from', {
+                      place: (trip.from?.name ?? t('common.currentLocation')).split(',')[0],
+                      stops: trip.via.length,
+                    })}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDateTime(trip.startedAt)} · {t(PROFILES[trip.profile].label)} · {t('route.number', { number: trip.routeIndex + 1 })} · {formatDuration(trip.duration)} · {formatDistance(trip.distance)}
+                  </div>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button variant="ghost" size="sm" asChild title={t('history.planAgain')}>
+                    <Link to={rerunLink(trip)}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeTrip(trip.id)}
+                    className="text-muted-foreground hover:text-destructive"
+                    title={t('common.delete')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,27 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import TrafficMap from '@/components/TrafficMap';
 import ApiKeyInput from '@/components/ApiKeyInput';
+import { useAccessToken } from '@/hooks/use-access-token';
 
 const Index = () => {
-  const [mapboxToken, setMapboxToken] = useState<string | null>(null);
+  const { token, rejected } = useAccessToken();
 
-  useEffect(() => {
-    // Check for stored token
-    const storedToken = localStorage.getItem('mapbox_token');
-    if (storedToken) {
-      setMapboxToken(storedToken);
-    }
-  }, []);
-
-  const handleApiKeySubmit = (token: string) => {
-    setMapboxToken(token);
-  };
-
-  if (!mapboxToken) {
-    return <ApiKeyInput onApiKeySubmit={handleApiKeySubmit} />;
+  if (!token) {
+    return <ApiKeyInput rejected={rejected} />;
   }
 
-  return <TrafficMap mapboxToken={mapboxToken} />;
+  return <TrafficMap mapboxToken={token} />;
 };
 
 export default Index;
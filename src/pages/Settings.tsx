@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { ArrowLeft, KeyRound, Languages, Ruler, Settings as SettingsIcon } from 'lucide-react';
+import LanguageSwitcher from '@/components/LanguageSwitcher';
+import TokenForm from '@/components/TokenForm';
+import { useAccessToken } from '@/hooks/use-access-token';
+import { useTranslation } from '@/hooks/use-translation';
+import { useUnitPreference } from '@/hooks/use-unit-preference';
+import {
+  UNIT_PREFERENCES,
+  formatDistance,
+  getLocale,
+  localeUnitSystem,
+  type UnitPreference,
+  type UnitSystem,
+} from '@/lib/format';
+import type { MessageKey } from '@/lib/i18n';
+import { setAccessToken } from '@/lib/mapbox';
+
+const UNIT_LABELS: Record<UnitSystem, MessageKey> = {
+  metric: 'settings.units.metric',
+  imperial: 'settings.units.imperial',
+};
+
+// Enough of the token to tell two apart without showing it
+const maskToken = (token: string) => `${token.slice(0, 3)}••••${token.slice(-4)}`;
+
+const Settings = () => {
+  const { token, remember, configured } = useAccessToken();
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [units, setUnits] = useUnitPreference();
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  const unitLabel = (preference: UnitPreference) =>
+    preference === 'auto'
+      ? t('settings.units.auto', { units: t(UNIT_LABELS[localeUnitSystem(getLocale())]) })
+      : t(UNIT_LABELS[preference]);
+
+  const clearToken = () => {
+    setAccessToken(null);
+    navigate('/');
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-4">
+      <div className="mx-auto max-w-2xl space-y-4">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" asChild title={t('common.backToMap')}>
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h1 className="text-xl font-semibold flex items-center gap-2">
+            <SettingsIcon className="h-5 w-5 text-primary" />
+            {t('common.settings')}
+          </h1>
+        </div>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="font-medium flex items-center gap-2">
+              <Languages className="h-4 w-4" />
+              {t('language.label')}
+            </Label>
+            <LanguageSwitcher />
+          </div>
+          <p className="text-xs text-muted-foreground">{t('language.hint')}</p>
+        </Card>
+
+        <Card className="p-4 space-y-3">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="font-medium flex items-center gap-2">
+              <Ruler className="h-4 w-4" />
+              {t('settings.units')}
+            </Label>
+            <Select value={units} onValueChange={(value) => setUnits(value as UnitPreference)}>
+              <SelectTrigger className="w-52 h-8 bg-background/50">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {UNIT_PREFERENCES.map((preference) => (
+                  <SelectItem key={preference} value={preference}>
+                    {unitLabel(preference)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('settings.units.example', { distance: formatDistance(1500) })}
+          </p>
+        </Card>
+
+        <Card className="p-4 space-y-3">
+          <h2 className="font-medium flex items-center gap-2">
+            <KeyRound className="h-4 w-4" />
+            {t('settings.token.title')}
+          </h2>
+
+          {token && configured && (
+            <p className="text-sm text-muted-foreground">
+              {t('settings.token.configured')}
+            </p>
+          )}
+          {token && !configured && (
+            <>
+              <div className="flex items-center justify-between gap-4 text-sm">
+                <span className="text-muted-foreground">{t('settings.token.inUse')}</span>
+                <code className="font-mono">{maskToken(token)}</code>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="remember-current-token" className="text-sm">{t('token.remember')}</Label>
+                <Switch
+                  id="remember-current-token"
+                  checked={remember}
+                  onCheckedChange={(checked) => setAccessToken(token, checked)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {remember
+                  ? t('settings.token.remembered')
+                  : t('settings.token.sessionOnly')}
+              </p>
+            </>
+          )}
+          {!token && <p className="text-sm text-muted-foreground">{t('settings.token.none')}</p>}
+
+          {isReplacing || !token ? (
+            <TokenForm
+              submitLabel={token && !configured ? t('settings.token.replace') : t('settings.token.save')}
+              onSaved={() => setIsReplacing(false)}
+            />
+          ) : (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsReplacing(true)}>
+                {configured ? t('settings.token.useOwn') : t('settings.token.replace')}
+              </Button>
+              {!configured && (
+                <Button variant="outline" size="sm" onClick={clearToken} className="hover:text-destructive">
+                  {t('settings.token.clear')}
+                </Button>
+              )}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
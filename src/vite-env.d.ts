@@ -1 +1,17 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MAPBOX_TOKEN?: string;
+  /** `lng,lat` */
+  readonly VITE_MAP_CENTER?: string;
+  readonly VITE_MAP_ZOOM?: string;
+  readonly VITE_MAP_PITCH?: string;
+  readonly VITE_MAP_STYLE?: string;
+  readonly VITE_UNITS?: string;
+  /** Comma-separated feature toggle names */
+  readonly VITE_DISABLED_FEATURES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,8 +1,29 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
+import fs from "fs";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Writes the built JS and CSS into the service worker's precache list, so
+// the app works offline from the first visit and every build installs afresh
+const precacheAssets = (): Plugin => ({
+  name: "precache-assets",
+  apply: "build",
+  writeBundle(options, bundle) {
+    const serviceWorker = path.join(options.dir!, "sw.js");
+    if (!fs.existsSync(serviceWorker)) return;
+
+    const assets = Object.keys(bundle)
+      .filter((file) => file.startsWith("assets/") && /\.(js|css)$/.test(file))
+      .map((file) => `/${file}`);
+    const source = fs.readFileSync(serviceWorker, "utf8");
+    fs.writeFileSync(
+      serviceWorker,
+      source.replace("const PRECACHE_ASSETS = [];", `const PRECACHE_ASSETS = ${JSON.stringify(assets)};`)
+    );
+  },
+});
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
   server: {
@@ -11,6 +32,7 @@ export default defineConfig(({ mode }) => ({
   },
   plugins: [
     react(),
+    precacheAssets(),
     mode === 'development' &&
     componentTagger(),
   ].filter(Boolean),